@@ -1,15 +1,12 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Box, useInput, useStdin } from 'ink';
 import { Config } from './schemas/config.js';
 import { OpenAIClient } from './openai.js';
 import { ChatMode } from './modes/chat.js';
 import { AgentMode } from './modes/agent.js';
-import { getCommand, searchCommands } from './commands/registry.js';
-import { WebSearchTool } from './tools/serper.js';
-import { URLScraperTool } from './tools/scraper.js';
-import { FilerWriterTool } from './tools/fileWriter.js';
-import { TodoistCreateTaskTool, TodoistGetTasksTool, TodoistGetProjectsTool, TodoistCompleteTaskTool, TodoistCreateProjectTool } from './tools/todoist.js';
-import { AgentPlanCreateTool, AgentPlanUpdateTool, AgentDoneTool } from './tools/internalPlan.js';
+import { getCommand, searchCommands, parseCommandQuery } from './commands/registry.js';
+import { RetryNotice, applyRetryArgs } from './commands/retry.js';
+import { builtInTools } from './tools/index.js';
 import { ConversationCompactor } from './utils/compaction.js';
 import { formatToolCallDisplay } from './utils/toolInfra.js';
 
@@ -19,7 +16,7 @@ import { ChatInput, type Mode } from './components/ChatInput.js';
 import { StatusBar } from './components/StatusBar.js';
 import { ActiveCommand } from './components/ActiveCommand.js';
 import { ActiveToolCalls } from './components/ActiveToolCalls.js';
-import { useContextUsage } from './hooks/useContextUsage.js';
+import { getContextUsage, useContextUsage } from './hooks/useContextUsage.js';
 
 // Redux imports
 import { useAppDispatch, useAppSelector } from './store/hooks.js';
@@ -35,10 +32,14 @@ import {
   appendToInput,
   removeLastInputChar,
   appendTokenToLastMessage,
+  appendReasoningToLastMessage,
   markLastMessageComplete,
   addToolCallMessage,
   addStreamingAssistantMessage,
   updateLastMessageWithToolCalls,
+  undoLastTurn,
+  annotateLastMessageUsage,
+  findLastUserMessageIndex,
 } from './store/slices/chatSlice.js';
 import {
   setShowCommandSelector,
@@ -55,9 +56,33 @@ import {
   addActiveToolCall,
   updateToolCallStatus,
   clearActiveToolCalls,
+  setRetryStatus,
+  toggleThinking,
+  setHighlightedMessageId,
 } from './store/slices/uiSlice.js';
-import { setCurrentUsage } from './store/slices/usageSlice.js';
+import {
+  setCurrentUsage,
+  clearUsage,
+  findTurnUsage,
+  getSessionUsage,
+  recordCallUsage,
+  addTurnUsage,
+  startTurnUsage,
+  type TokenUsage,
+} from './store/slices/usageSlice.js';
+import { setSessionModel, setSessionTitle } from './store/slices/sessionSlice.js';
+import { describeConfigOverrides, getActiveProfile, getConfigOverrides } from './config.js';
+import { SessionTitleGenerator } from './sessions/titles.js';
+import { sanitizeToolPairing } from './utils/toolPairing.js';
 import { commandManager } from './utils/commandManager.js';
+import type { RetryInfo } from './utils/retry.js';
+import {
+  buildMessageContent,
+  extractImageReferences,
+  getTextContent,
+  type MessageContent,
+} from './utils/messageContent.js';
+import { AttachmentNotice } from './components/AttachmentNotice.js';
 
 interface ChatAppProps {
   config: Config;
@@ -67,29 +92,42 @@ interface ChatAppProps {
 export const ChatApp: React.FC<ChatAppProps> = ({ config: initialConfig, onClientCreate }) => {
   // Redux state
   const dispatch = useAppDispatch();
-  const { messages, mode, isLoading, input } = useAppSelector((state) => state.chat);
-  const { showCommandSelector, commandQuery, selectedCommandIndex, activeCommand, hasActiveCommandJSX } = useAppSelector((state) => state.ui);
-  const { currentUsage } = useAppSelector((state) => state.usage);
+  const { messages, historyRevision, mode, isLoading, input } = useAppSelector((state) => state.chat);
+  const { showCommandSelector, commandQuery, selectedCommandIndex, activeCommand, hasActiveCommandJSX, highlightedMessageId, retryStatus, showThinking, sessionSaveError } = useAppSelector((state) => state.ui);
+  const { currentUsage, turns: usageTurns } = useAppSelector((state) => state.usage);
+  const sessionTitle = useAppSelector((state) => state.session.title);
 
   // Local state that doesn't need Redux
   const [config, setConfig] = useState(initialConfig);
   const [openaiClient, setOpenaiClient] = useState(
-    () => new OpenAIClient(initialConfig, [WebSearchTool, URLScraperTool, FilerWriterTool, TodoistCreateTaskTool, TodoistGetTasksTool, TodoistGetProjectsTool, TodoistCompleteTaskTool, TodoistCreateProjectTool, AgentPlanCreateTool, AgentPlanUpdateTool, AgentDoneTool])
+    () => new OpenAIClient(initialConfig, builtInTools)
   );
-  const [compactor] = useState(() => new ConversationCompactor(openaiClient));
+  const compactor = useMemo(() => new ConversationCompactor(openaiClient), [openaiClient]);
   const { isRawModeSupported } = useStdin();
+  const titlePending = useRef(false);
+  const turnAbort = useRef<AbortController | null>(null);
 
   // Use the custom hook for context usage calculation
-  const contextUsageInfo = useContextUsage(currentUsage, config.openai.model);
-
-  // Manual compaction function
-  const performCompaction = async (): Promise<void> => {
+  const activeProfile = getActiveProfile(config);
+  const modelInfo = useMemo(() => openaiClient.getModelInfo(), [openaiClient]);
+  const contextUsageInfo = useContextUsage(currentUsage, modelInfo);
+  const sessionCost = useMemo(() => getSessionUsage(usageTurns).cost, [usageTurns]);
+
+  // Manual compaction function; reads the store so it also sees the messages
+  // a turn has just added
+  const performCompaction = useCallback(async (): Promise<void> => {
+    const { messages } = store.getState().chat;
     if (messages.length === 0) return;
     
     dispatch(setLoading(true));
     try {
       const result = await compactor.compact(messages);
       dispatch(setMessages(result.compactedMessages));
+      if (result.usage) {
+        const startedAt = Date.now();
+        dispatch(startTurnUsage({ kind: 'compaction', startedAt }));
+        dispatch(recordCallUsage({ ...result.usage, model: openaiClient.getModel(), at: startedAt, turnStartedAt: startedAt }));
+      }
       
       // Show compaction result
       dispatch(setActiveCommand({
@@ -97,8 +135,9 @@ export const ChatApp: React.FC<ChatAppProps> = ({ config: initialConfig, onClien
         data: { compactionResult: result }
       }));
       
-      // Clear usage to force recalculation on next response
-      dispatch(setCurrentUsage({ promptTokens: 0, completionTokens: 0, totalTokens: 0 }));
+      // Until the next response reports real usage, count the compacted history
+      const promptTokens = openaiClient.countTokens(result.compactedMessages);
+      dispatch(setCurrentUsage({ promptTokens, completionTokens: 0, totalTokens: promptTokens }));
     } catch (error) {
       console.error('Compaction failed:', error);
       dispatch(addMessage({
@@ -109,19 +148,24 @@ export const ChatApp: React.FC<ChatAppProps> = ({ config: initialConfig, onClien
     } finally {
       dispatch(setLoading(false));
     }
-  };
+  }, [compactor, openaiClient, dispatch]);
+
 
+  // Clients swapped by /model share MCP connections, so cleanup always goes
+  // through the current one instead of disconnecting on every swap
+  const clientRef = useRef(openaiClient);
+  clientRef.current = openaiClient;
 
   // Register client cleanup function with parent and handle signals
   useEffect(() => {
     if (onClientCreate) {
-      onClientCreate(() => openaiClient.disconnect());
+      onClientCreate(() => clientRef.current.disconnect());
     }
     
     // Handle Ctrl+C within the component
     const handleExit = async () => {
       try {
-        await openaiClient.disconnect();
+        await clientRef.current.disconnect();
       } catch (error) {
         console.error('Error during cleanup:', error);
       } finally {
@@ -135,17 +179,21 @@ export const ChatApp: React.FC<ChatAppProps> = ({ config: initialConfig, onClien
     // Cleanup MCP connections on unmount
     return () => {
       process.off('SIGINT', handleExit);
-      openaiClient.disconnect().catch(console.error);
+      clientRef.current.disconnect().catch(console.error);
     };
-  }, [openaiClient, onClientCreate]);
+  }, [onClientCreate]);
 
 
-  // Auto-compaction function
-  const checkAutoCompactionActual = useCallback(async (): Promise<void> => {
-    if (contextUsageInfo && contextUsageInfo.remainingPercentage <= 10 && messages.length > 6) {
+  // Compacts once a turn has filled the context past the threshold
+  const checkAutoCompaction = useCallback(async (): Promise<void> => {
+    const usage = getContextUsage(
+      store.getState().usage.currentUsage,
+      openaiClient.getModelInfo()
+    );
+    if (usage && compactor.shouldCompact(usage.used) && store.getState().chat.messages.length > 6) {
       dispatch(addMessage({
         role: 'assistant',
-        content: '⚠️ Context space is running low (10% remaining). Auto-compacting conversation...',
+        content: `⚠️ Context space is running low (${usage.windowKnown ? '' : '~'}${usage.remainingPercentage}% remaining). Auto-compacting conversation...`,
         isComplete: true,
       }));
       await performCompaction();
@@ -155,32 +203,103 @@ export const ChatApp: React.FC<ChatAppProps> = ({ config: initialConfig, onClien
         isComplete: true,
       }));
     }
-  }, [contextUsageInfo, messages.length, dispatch, performCompaction]);
+  }, [compactor, openaiClient, dispatch, performCompaction]);
 
 
-  const handleSubmit = useCallback(async () => {
-    if (!input.trim() || isLoading || showCommandSelector) return;
+  // Names the session in the background once its first exchange is complete
+  const generateTitleIfNeeded = useCallback((client: OpenAIClient) => {
+    const { session, chat } = store.getState();
+    const hasExchange =
+      chat.messages.some((msg) => msg.role === 'user' && !msg.isInternal) &&
+      chat.messages.some((msg) => msg.role === 'assistant' && getTextContent(msg.content).trim());
+    if (!session.id || session.title || titlePending.current || !hasExchange) {
+      return;
+    }
 
-    const userMessage = input.trim();
-    dispatch(clearInput());
+    titlePending.current = true;
+    const sessionId = session.id;
+    const startedAt = Date.now();
+    new SessionTitleGenerator(client)
+      .generate(chat.messages, (usage) => {
+        if (store.getState().session.id === sessionId) {
+          dispatch(addTurnUsage({
+            kind: 'title',
+            startedAt,
+            calls: [{ ...usage, model: client.getModel(), at: Date.now() }],
+          }));
+        }
+      })
+      .then((result) => {
+        const current = store.getState().session;
+        // Skip if the user switched sessions meanwhile; keep a title set with /title
+        if (result && current.id === sessionId) {
+          dispatch(setSessionTitle({
+            title: current.title ?? result.title,
+            summary: result.summary,
+          }));
+        }
+      })
+      .catch(() => {
+        // Untitled sessions fall back to their first message; retried next turn
+      })
+      .finally(() => {
+        titlePending.current = false;
+      });
+  }, [dispatch]);
+
+  // Runs one user turn on top of `history` in `turnMode` and adds the results
+  // to the chat
+  const runTurn = useCallback(async (
+    userMessage: MessageContent,
+    history: Message[],
+    client: OpenAIClient,
+    turnMode: Mode
+  ) => {
+    // The search hit shown under the transcript is done with once the chat moves on
+    dispatch(setHighlightedMessageId(null));
     dispatch(addMessage({
       role: 'user',
       content: userMessage,
       isComplete: true,
+      mode: turnMode,
     }));
     dispatch(setLoading(true));
+    // Calls are filed under this turn even if a session title lands meanwhile
+    const turnStartedAt = Date.now();
+    dispatch(startTurnUsage({ kind: turnMode, startedAt: turnStartedAt }));
+    const abortController = new AbortController();
+    turnAbort.current = abortController;
 
     try {
       // Only add streaming assistant message for Chat mode
-      if (mode === 'CHAT') {
+      if (turnMode === 'CHAT') {
         dispatch(addStreamingAssistantMessage());
       }
 
+      // Retries show in the status bar until the repeated call gets through
+      const handleRetry = (info: RetryInfo) => {
+        dispatch(setRetryStatus({ attempt: info.attempt, maxRetries: info.maxRetries }));
+        if (turnMode === 'CHAT') {
+          // Drop what the failed attempt streamed so the retry doesn't repeat it
+          dispatch(updateLastMessage({ content: '', reasoning: '' }));
+        }
+      };
+      const clearRetryStatus = () => {
+        if (store.getState().ui.retryStatus) {
+          dispatch(setRetryStatus(null));
+        }
+      };
+
       // Set up streaming callbacks (Chat mode gets full callbacks, Agent mode gets minimal)
-      const streamingCallbacks = mode === 'CHAT' ? {
+      const streamingCallbacks = turnMode === 'CHAT' ? {
         onToken: (token: string) => {
+          clearRetryStatus();
           dispatch(appendTokenToLastMessage(token));
         },
+        onReasoning: (token: string) => {
+          clearRetryStatus();
+          dispatch(appendReasoningToLastMessage(token));
+        },
         onComplete: () => {
           dispatch(markLastMessageComplete());
         },
@@ -202,6 +321,9 @@ export const ChatApp: React.FC<ChatAppProps> = ({ config: initialConfig, onClien
             error,
           }));
         },
+        onToolCallCancelled: (toolCallId: string) => {
+          dispatch(updateToolCallStatus({ id: toolCallId, status: 'aborted' }));
+        },
         onToolCallsReady: (toolCalls: any[]) => {
           // Update the current assistant message with tool calls
           dispatch(updateLastMessageWithToolCalls(toolCalls));
@@ -209,11 +331,11 @@ export const ChatApp: React.FC<ChatAppProps> = ({ config: initialConfig, onClien
         onNewMessage: () => {
           dispatch(addStreamingAssistantMessage());
         },
-        onUsage: (usage: { promptTokens: number; completionTokens: number; totalTokens: number }) => {
-          dispatch(setCurrentUsage(usage));
-          // Check for auto-compaction after setting usage
-          setTimeout(() => checkAutoCompactionActual(), 100);
+        onUsage: (usage: TokenUsage) => {
+          clearRetryStatus();
+          dispatch(recordCallUsage({ ...usage, model: client.getModel(), at: Date.now(), turnStartedAt }));
         },
+        onRetry: handleRetry,
       } : {
         // Agent mode: Show tool calls but no streaming
         onToolCall: (toolCallId: string, toolName: string, args: any, tool?: any) => {
@@ -234,32 +356,47 @@ export const ChatApp: React.FC<ChatAppProps> = ({ config: initialConfig, onClien
             error,
           }));
         },
-        onUsage: (usage: { promptTokens: number; completionTokens: number; totalTokens: number }) => {
-          dispatch(setCurrentUsage(usage));
-          // Check for auto-compaction after setting usage
-          setTimeout(() => checkAutoCompactionActual(), 100);
+        onToolCallCancelled: (toolCallId: string) => {
+          dispatch(updateToolCallStatus({ id: toolCallId, status: 'aborted' }));
+        },
+        onUsage: (usage: TokenUsage) => {
+          clearRetryStatus();
+          dispatch(recordCallUsage({ ...usage, model: client.getModel(), at: Date.now(), turnStartedAt }));
         },
+        onRetry: handleRetry,
       };
 
+      // The API rejects tool calls without results, which chat turns can
+      // leave behind (a cancelled one only keeps those of its last call)
+      const requestHistory = sanitizeToolPairing(history).messages;
       const response =
-        mode === 'CHAT'
+        turnMode === 'CHAT'
           ? await ChatMode.execute(
-              openaiClient,
-              messages,
+              client,
+              requestHistory,
               userMessage,
-              streamingCallbacks
+              streamingCallbacks,
+              abortController.signal
             )
           : await AgentMode.execute(
-              openaiClient,
-              messages,
+              client,
+              requestHistory,
               userMessage,
-              streamingCallbacks
+              streamingCallbacks,
+              abortController.signal
             );
 
+      // A cancelled chat turn already shows its message and tool calls; only
+      // the (cancelled) tool results are missing
+      const messagesToAdd =
+        response.cancelled && turnMode === 'CHAT'
+          ? response.messagesToAdd?.filter((msg) => msg.role === 'tool')
+          : response.messagesToAdd;
+
       // Handle response based on mode and content
-      if (response.messagesToAdd && response.messagesToAdd.length > 0) {
+      if (messagesToAdd && messagesToAdd.length > 0) {
         // Agent mode: Add all messages from agent iterations
-        for (const msg of response.messagesToAdd) {
+        for (const msg of messagesToAdd) {
           // Skip system messages and internal messages from being added to Redux state
           if (msg.role === 'system' || msg.isInternal) {
             continue;
@@ -274,15 +411,23 @@ export const ChatApp: React.FC<ChatAppProps> = ({ config: initialConfig, onClien
             tool_calls: msg.tool_calls,
             isInternal: msg.isInternal,
             displayContent: msg.displayContent,
+            reasoning: msg.reasoning,
             isComplete: true,
           }));
         }
         
-        // Clear active tool calls now that final messages are added
-        dispatch(clearActiveToolCalls());
+        // Clear active tool calls now that final messages are added; cancelled
+        // ones stay visible until the next turn
+        if (!response.cancelled) {
+          dispatch(clearActiveToolCalls());
+        }
+      } else if (response.cancelled && turnMode === 'CHAT' && !response.content) {
+        dispatch(
+          updateLastMessage({ content: '(cancelled)', isComplete: true })
+        );
       } else if (response.content) {
         // Simple responses (Chat mode or Agent mode without tools)
-        if (mode === 'CHAT') {
+        if (turnMode === 'CHAT') {
           // Chat mode: Update the streaming assistant message with content
           dispatch(updateLastMessage({
             content: response.content,
@@ -293,6 +438,7 @@ export const ChatApp: React.FC<ChatAppProps> = ({ config: initialConfig, onClien
           dispatch(addMessage({
             role: 'assistant',
             content: response.content,
+            reasoning: response.reasoning,
             isComplete: true,
           }));
         }
@@ -304,8 +450,45 @@ export const ChatApp: React.FC<ChatAppProps> = ({ config: initialConfig, onClien
         isComplete: true,
       }));
     } finally {
+      // Remember the usage at the end of this turn so /undo and /retry can restore it
+      const { currentUsage } = store.getState().usage;
+      if (currentUsage) {
+        dispatch(annotateLastMessageUsage(currentUsage));
+      }
+      turnAbort.current = null;
+      dispatch(setRetryStatus(null));
       dispatch(setLoading(false));
+      generateTitleIfNeeded(client);
+    }
+    // Only between turns: mid-turn it would replace the history under the
+    // running turn
+    await checkAutoCompaction();
+  }, [
+    generateTitleIfNeeded,
+    checkAutoCompaction,
+    dispatch,
+  ]);
+
+  const showNotice = useCallback((notice: React.JSX.Element) => {
+    commandManager.setCommand(notice);
+    dispatch(setActiveCommandJSX(true));
+  }, [dispatch]);
+
+  const handleSubmit = useCallback(async () => {
+    if (!input.trim() || isLoading || showCommandSelector) return;
+
+    // `@image.png` references become attachments; the input is kept if one fails to load
+    let userMessage: MessageContent;
+    try {
+      const { text, imagePaths } = extractImageReferences(input.trim());
+      userMessage = buildMessageContent(text, imagePaths);
+    } catch (error) {
+      showNotice(<AttachmentNotice message={error instanceof Error ? error.message : 'Could not attach image'} />);
+      return;
     }
+
+    dispatch(clearInput());
+    await runTurn(userMessage, messages, openaiClient, mode);
   }, [
     input,
     isLoading,
@@ -313,16 +496,50 @@ export const ChatApp: React.FC<ChatAppProps> = ({ config: initialConfig, onClien
     openaiClient,
     messages,
     showCommandSelector,
-    checkAutoCompactionActual,
+    runTurn,
+    showNotice,
     dispatch,
   ]);
 
+  // Drops the last answer and asks again, optionally with another model or temperature
+  const retryLastTurn = useCallback(async (args: string) => {
+    if (isLoading) {
+      showNotice(<RetryNotice message="Wait for the current response to finish before retrying." />);
+      return;
+    }
+
+    const lastUserIndex = findLastUserMessageIndex(messages);
+    if (lastUserIndex === -1) {
+      showNotice(<RetryNotice message="Nothing to retry yet." />);
+      return;
+    }
+
+    let retryConfig: Config;
+    try {
+      retryConfig = applyRetryArgs(config, args);
+    } catch (error) {
+      showNotice(<RetryNotice message={error instanceof Error ? error.message : 'Invalid retry arguments'} />);
+      return;
+    }
+
+    const history = messages.slice(0, lastUserIndex);
+    dispatch(undoLastTurn());
+    dispatch(clearActiveToolCalls());
+    const usage = findTurnUsage(history);
+    dispatch(usage ? setCurrentUsage(usage) : clearUsage());
+
+    const client = args ? openaiClient.withConfig(retryConfig) : openaiClient;
+    // Asked again in the mode it was first asked in
+    const { content, mode: askedMode } = messages[lastUserIndex];
+    await runTurn(content, history, client, askedMode ?? mode);
+  }, [config, isLoading, messages, mode, openaiClient, runTurn, showNotice, dispatch]);
+
   const toggleModeCallback = useCallback(() => {
     dispatch(toggleMode());
   }, [dispatch]);
 
   const handleCommandSelect = useCallback(
-    async (commandName: string) => {
+    async (commandName: string, args: string = '') => {
       const command = getCommand(commandName);
       if (command) {
         dispatch(hideCommandSelector());
@@ -334,6 +551,12 @@ export const ChatApp: React.FC<ChatAppProps> = ({ config: initialConfig, onClien
           return;
         }
 
+        // Handle retry command specially
+        if (commandName === 'retry') {
+          await retryLastTurn(args);
+          return;
+        }
+
         // Handle exit command specially
         if (commandName === 'exit') {
           dispatch(setActiveCommand({ type: 'exit' }));
@@ -346,11 +569,18 @@ export const ChatApp: React.FC<ChatAppProps> = ({ config: initialConfig, onClien
 
         const result = await command.execute(config, (newConfig) => {
           setConfig(newConfig);
-          setOpenaiClient(new OpenAIClient(newConfig, [WebSearchTool, URLScraperTool, FilerWriterTool, TodoistCreateTaskTool, TodoistGetTasksTool, TodoistGetProjectsTool, TodoistCompleteTaskTool, TodoistCreateProjectTool, AgentPlanCreateTool, AgentPlanUpdateTool, AgentDoneTool]));
+          dispatch(setSessionModel(newConfig.openai.model));
+          // Keep the MCP connections alive unless the server list changed
+          if (JSON.stringify(newConfig.mcpServers) === JSON.stringify(config.mcpServers)) {
+            setOpenaiClient(openaiClient.withConfig(newConfig));
+          } else {
+            openaiClient.disconnect().catch(console.error);
+            setOpenaiClient(new OpenAIClient(newConfig, builtInTools));
+          }
           // Close command after saving
           dispatch(setActiveCommandJSX(false));
           commandManager.clear();
-        });
+        }, args);
 
         if (result) {
           // Store JSX in command manager and track in Redux
@@ -359,7 +589,7 @@ export const ChatApp: React.FC<ChatAppProps> = ({ config: initialConfig, onClien
         }
       }
     },
-    [config, performCompaction, dispatch, openaiClient]
+    [config, performCompaction, retryLastTurn, dispatch, openaiClient]
   );
 
   const handleCommandCancel = useCallback(() => {
@@ -383,6 +613,21 @@ export const ChatApp: React.FC<ChatAppProps> = ({ config: initialConfig, onClien
       return;
     }
 
+    if (key.ctrl && input === 't') {
+      dispatch(toggleThinking());
+      return;
+    }
+
+    // Esc or Ctrl+G stops the running request and tools
+    if (
+      isLoading &&
+      turnAbort.current &&
+      (key.escape || (key.ctrl && input === 'g'))
+    ) {
+      turnAbort.current.abort();
+      return;
+    }
+
     // If we're in an active command, let it handle the input
     if (hasActiveCommandJSX || activeCommand.type) {
       if (key.escape) {
@@ -413,7 +658,8 @@ export const ChatApp: React.FC<ChatAppProps> = ({ config: initialConfig, onClien
           selectedCommandIndex < currentMatches.length
         ) {
           handleCommandSelect(
-            currentMatches[selectedCommandIndex].command.name
+            currentMatches[selectedCommandIndex].command.name,
+            parseCommandQuery(commandQuery).args
           );
         }
       } else if (key.escape) {
@@ -464,13 +710,17 @@ export const ChatApp: React.FC<ChatAppProps> = ({ config: initialConfig, onClien
   }
 
   const showInformationalHeader = messages.length === 0 && !showCommandSelector;
+  const configOverrides = getConfigOverrides(config);
 
   return (
     <Box flexDirection="column" height="100%">
       <MessageList
         messages={messages}
+        historyRevision={historyRevision}
+        highlightedMessageId={highlightedMessageId}
         isLoading={isLoading}
         showInformationalHeader={showInformationalHeader}
+        showThinking={showThinking}
       />
 
       <ActiveToolCalls />
@@ -486,7 +736,14 @@ export const ChatApp: React.FC<ChatAppProps> = ({ config: initialConfig, onClien
 
       <StatusBar
         mode={mode}
+        title={sessionTitle}
+        profile={activeProfile?.name}
+        overrides={configOverrides && describeConfigOverrides(configOverrides)}
+        retryStatus={retryStatus}
+        saveError={sessionSaveError}
         contextUsageInfo={contextUsageInfo}
+        reasoningTokens={currentUsage?.reasoningTokens}
+        sessionCost={sessionCost}
         showCommandSelector={showCommandSelector}
         showInformationalHeader={showInformationalHeader}
       />
@@ -0,0 +1,93 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import { SlashCommand } from './types.js';
+import { Config } from '../schemas/config.js';
+import { store } from '../store/index.js';
+import { switchBranch, type Branch } from '../store/slices/chatSlice.js';
+import { clearActiveToolCalls, setActiveCommandJSX } from '../store/slices/uiSlice.js';
+import {
+  clearUsage,
+  findTurnUsage,
+  setCurrentUsage,
+} from '../store/slices/usageSlice.js';
+import { commandManager } from '../utils/commandManager.js';
+import { describeContent } from '../utils/messageContent.js';
+import { BranchTree, type BranchTreeEntry } from '../components/BranchTree.js';
+
+const BusyDisplay: React.FC = () => (
+  <Box paddingX={2} paddingY={1}>
+    <Text color="yellow">
+      Wait for the current response to finish before switching branches.
+    </Text>
+  </Box>
+);
+
+// Flattens the branch tree depth-first, oldest children first
+function buildTreeEntries(
+  branches: Branch[],
+  getMessages: (branch: Branch) => Branch['messages']
+): BranchTreeEntry[] {
+  const ids = new Set(branches.map((branch) => branch.id));
+  const byCreation = [...branches].sort((a, b) => a.createdAt - b.createdAt);
+  const entries: BranchTreeEntry[] = [];
+
+  const visit = (branch: Branch, depth: number) => {
+    const messages = getMessages(branch);
+    const forkMessage = messages.find((msg) => msg.id === branch.forkMessageId);
+    const preview =
+      forkMessage && describeContent(forkMessage.content).replace(/\s+/g, ' ').trim();
+
+    entries.push({
+      branch,
+      depth,
+      messageCount: messages.length,
+      forkPreview:
+        preview && preview.length > 60 ? `${preview.slice(0, 57)}...` : preview,
+    });
+
+    for (const child of byCreation) {
+      if (child.parentBranchId === branch.id) {
+        visit(child, depth + 1);
+      }
+    }
+  };
+
+  for (const branch of byCreation) {
+    if (!branch.parentBranchId || !ids.has(branch.parentBranchId)) {
+      visit(branch, 0);
+    }
+  }
+
+  return entries;
+}
+
+export const branchesCommand: SlashCommand = {
+  name: 'branches',
+  description: 'List conversation branches and switch between them',
+  execute: async (config: Config) => {
+    const { branches, activeBranchId, messages, isLoading } =
+      store.getState().chat;
+    if (isLoading) {
+      return <BusyDisplay />;
+    }
+
+    const entries = buildTreeEntries(Object.values(branches), (branch) =>
+      branch.id === activeBranchId ? messages : branch.messages
+    );
+
+    return (
+      <BranchTree
+        entries={entries}
+        activeBranchId={activeBranchId}
+        onSelect={(branchId) => {
+          store.dispatch(switchBranch(branchId));
+          store.dispatch(clearActiveToolCalls());
+          const usage = findTurnUsage(store.getState().chat.messages);
+          store.dispatch(usage ? setCurrentUsage(usage) : clearUsage());
+          store.dispatch(setActiveCommandJSX(false));
+          commandManager.clear();
+        }}
+      />
+    );
+  },
+};
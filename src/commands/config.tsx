@@ -1,6 +1,7 @@
 import React, { useState, useCallback } from 'react';
 import { Box, Text, useInput } from 'ink';
 import { Config } from '../schemas/config.js';
+import { applyProfile, getBaseConfig } from '../config.js';
 import { SlashCommand } from './types.js';
 import { writeFileSync } from 'fs';
 import { join } from 'path';
@@ -21,7 +22,7 @@ const ConfigForm: React.FC<ConfigFormProps> = ({
     openaiApiKey:
       config.openai.apiKey === 'sk-your-openai-api-key-here'
         ? ''
-        : config.openai.apiKey,
+        : config.openai.apiKey ?? '',
     openaiModel: config.openai.model,
     serperApiKey:
       config.serper.apiKey === 'your-serper-api-key-here'
@@ -45,6 +46,8 @@ const ConfigForm: React.FC<ConfigFormProps> = ({
 
   const handleSave = useCallback(() => {
     const newConfig: Config = {
+      // Keep settings the form doesn't edit (provider, tools, sessions, ...)
+      ...config,
       openai: {
         apiKey: formData.openaiApiKey || config.openai.apiKey,
         model: formData.openaiModel || config.openai.model,
@@ -149,11 +152,18 @@ export const configCommand: SlashCommand = {
     config: Config,
     onConfigUpdate?: (newConfig: Config) => void
   ) => {
+    // Edit what is on disk, not the values of one-off CLI overrides
     return (
       <ConfigForm
-        config={config}
+        config={getBaseConfig(config)}
         onSave={(newConfig: Config) => {
-          onConfigUpdate?.(newConfig);
+          // Stay on the profile that was active before editing
+          const profile = config.profile ?? newConfig.profile;
+          onConfigUpdate?.(
+            profile && newConfig.profiles?.[profile]
+              ? applyProfile(newConfig, profile)
+              : newConfig
+          );
         }}
         onCancel={() => {
           onConfigUpdate?.(config); // Signal to close without changes
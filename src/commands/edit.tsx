@@ -0,0 +1,69 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import { SlashCommand } from './types.js';
+import { Config } from '../schemas/config.js';
+import { store } from '../store/index.js';
+import { forkBranch, setInput, setMode } from '../store/slices/chatSlice.js';
+import { clearActiveToolCalls, setActiveCommandJSX } from '../store/slices/uiSlice.js';
+import {
+  clearUsage,
+  findTurnUsage,
+  setCurrentUsage,
+} from '../store/slices/usageSlice.js';
+import { commandManager } from '../utils/commandManager.js';
+import { toInputText } from '../utils/messageContent.js';
+import { MessagePicker } from '../components/MessagePicker.js';
+
+const BusyDisplay: React.FC = () => (
+  <Box paddingX={2} paddingY={1}>
+    <Text color="yellow">
+      Wait for the current response to finish before editing.
+    </Text>
+  </Box>
+);
+
+export const editCommand: SlashCommand = {
+  name: 'edit',
+  description: 'Edit an earlier message and re-run the conversation from there',
+  execute: async (config: Config) => {
+    const { messages, isLoading } = store.getState().chat;
+    if (isLoading) {
+      return <BusyDisplay />;
+    }
+
+    const userMessages = messages.filter(
+      (msg) => msg.role === 'user' && !msg.isInternal
+    );
+
+    return (
+      <MessagePicker
+        title="✏️ Edit Message"
+        messages={userMessages}
+        actionLabel="Edit and re-run"
+        onSelect={(message) => {
+          // Continue on a new branch so the original answers stay reachable
+          const branchCount = Object.keys(store.getState().chat.branches).length;
+          store.dispatch(
+            forkBranch({
+              messageId: message.id!,
+              name: `edit-${branchCount}`,
+              before: true,
+            })
+          );
+          store.dispatch(clearActiveToolCalls());
+          const usage = findTurnUsage(store.getState().chat.messages);
+          store.dispatch(usage ? setCurrentUsage(usage) : clearUsage());
+
+          // Re-run in the mode the original message was sent in
+          if (message.mode) {
+            store.dispatch(setMode(message.mode));
+          }
+          store.dispatch(setInput(toInputText(message.content)));
+
+          store.dispatch(setActiveCommandJSX(false));
+          commandManager.clear();
+        }}
+      />
+    );
+  },
+};
@@ -0,0 +1,84 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import { writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { SlashCommand } from './types.js';
+import { Config } from '../schemas/config.js';
+import { store } from '../store/index.js';
+import { getSessionUsage } from '../store/slices/usageSlice.js';
+import {
+  buildConversationExport,
+  EXPORT_FORMATS,
+  renderExport,
+  type ExportFormat,
+} from '../sessions/export.js';
+
+const ExportError: React.FC<{ message: string }> = ({ message }) => (
+  <Box flexDirection="column" paddingX={2} paddingY={1}>
+    <Box marginBottom={1}>
+      <Text bold color="red">
+        📤 Export - Error
+      </Text>
+    </Box>
+    <Text color="red">{message}</Text>
+  </Box>
+);
+
+export const exportCommand: SlashCommand = {
+  name: 'export',
+  description: 'Export the conversation: /export [md|html|json] [path]',
+  execute: async (config: Config, onConfigUpdate, args = '') => {
+    const [formatArg, ...pathParts] = args.split(/\s+/).filter(Boolean);
+    const format = (formatArg ?? 'md').toLowerCase() as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      return (
+        <ExportError
+          message={`Unknown format "${formatArg}". Use one of: ${EXPORT_FORMATS.join(', ')}`}
+        />
+      );
+    }
+
+    const { chat, session, usage } = store.getState();
+    const conversation = buildConversationExport(chat.messages, {
+      sessionId: session.id,
+      title: session.title ?? undefined,
+      model: session.model || config.openai.model,
+      usage: usage.turns.length > 0 ? getSessionUsage(usage.turns) : undefined,
+    });
+    if (conversation.turns.length === 0) {
+      return <ExportError message="Nothing to export yet." />;
+    }
+
+    const outputPath = resolve(
+      pathParts.length > 0
+        ? pathParts.join(' ')
+        : `jecko-${session.id ?? Date.now()}.${format}`
+    );
+
+    try {
+      writeFileSync(outputPath, renderExport(format, conversation), 'utf8');
+    } catch (error) {
+      return (
+        <ExportError
+          message={`Failed to write export: ${error instanceof Error ? error.message : 'Unknown error'}`}
+        />
+      );
+    }
+
+    return (
+      <Box flexDirection="column" paddingX={2} paddingY={1}>
+        <Box marginBottom={1}>
+          <Text bold color="green">
+            📤 Conversation Exported
+          </Text>
+        </Box>
+        <Text color="cyan">
+          Wrote {conversation.turns.length} turns as {format.toUpperCase()}
+        </Text>
+        <Box marginTop={1}>
+          <Text color="gray">File location: {outputPath}</Text>
+        </Box>
+      </Box>
+    );
+  },
+};
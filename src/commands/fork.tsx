@@ -0,0 +1,59 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import { SlashCommand } from './types.js';
+import { Config } from '../schemas/config.js';
+import { store } from '../store/index.js';
+import { forkBranch } from '../store/slices/chatSlice.js';
+import { clearActiveToolCalls, setActiveCommandJSX } from '../store/slices/uiSlice.js';
+import {
+  clearUsage,
+  findTurnUsage,
+  setCurrentUsage,
+} from '../store/slices/usageSlice.js';
+import { commandManager } from '../utils/commandManager.js';
+import { describeContent } from '../utils/messageContent.js';
+import { MessagePicker } from '../components/MessagePicker.js';
+
+const BusyDisplay: React.FC = () => (
+  <Box paddingX={2} paddingY={1}>
+    <Text color="yellow">
+      Wait for the current response to finish before forking.
+    </Text>
+  </Box>
+);
+
+export const forkCommand: SlashCommand = {
+  name: 'fork',
+  description: 'Start a new branch from an earlier message',
+  execute: async (config: Config) => {
+    const { messages, isLoading } = store.getState().chat;
+    if (isLoading) {
+      return <BusyDisplay />;
+    }
+
+    // Only offer points where the conversation can sensibly continue
+    const forkPoints = messages.filter(
+      (msg) =>
+        !msg.isInternal &&
+        msg.isComplete !== false &&
+        (msg.role === 'user' || (msg.role === 'assistant' && !msg.tool_calls)) &&
+        describeContent(msg.content).trim() !== ''
+    );
+
+    return (
+      <MessagePicker
+        title="🌿 Fork Conversation"
+        messages={forkPoints}
+        actionLabel="Fork after this message"
+        onSelect={(message) => {
+          store.dispatch(forkBranch({ messageId: message.id! }));
+          store.dispatch(clearActiveToolCalls());
+          const usage = findTurnUsage(store.getState().chat.messages);
+          store.dispatch(usage ? setCurrentUsage(usage) : clearUsage());
+          store.dispatch(setActiveCommandJSX(false));
+          commandManager.clear();
+        }}
+      />
+    );
+  },
+};
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { Box, Text } from 'ink';
+import { SlashCommand } from './types.js';
+import { Config } from '../schemas/config.js';
+import { store } from '../store/index.js';
+import { switchBranch } from '../store/slices/chatSlice.js';
+import {
+  setActiveCommandJSX,
+  setHighlightedMessageId,
+} from '../store/slices/uiSlice.js';
+import { commandManager } from '../utils/commandManager.js';
+import { SearchResultsPicker } from '../components/SearchResultsPicker.js';
+import { sessionRecorder } from '../sessions/recorder.js';
+import { restoreSession } from '../sessions/restore.js';
+import { SessionSearchIndex, type SearchResult } from '../sessions/search.js';
+
+/**
+ * Opens the session of a search result on the branch holding the match and
+ * highlights the matching message
+ */
+export function openSearchResult(result: SearchResult): void {
+  const sessionStore = sessionRecorder.getStore();
+  if (result.sessionId !== store.getState().session.id) {
+    restoreSession(store.dispatch, sessionStore.load(result.sessionId));
+  }
+  store.dispatch(switchBranch(result.branchId));
+  store.dispatch(setHighlightedMessageId(result.messageId));
+}
+
+const HistoryError: React.FC<{ message: string }> = ({ message }) => (
+  <Box flexDirection="column" paddingX={2} paddingY={1}>
+    <Box marginBottom={1}>
+      <Text bold color="red">
+        🔎 History - Error
+      </Text>
+    </Box>
+    <Text color="red">{message}</Text>
+  </Box>
+);
+
+/** The results picker, replaced by an error if the chosen session won't open */
+const HistoryResults: React.FC<{ query: string; results: SearchResult[] }> = ({
+  query,
+  results,
+}) => {
+  const [error, setError] = useState<string | null>(null);
+
+  if (error) {
+    return <HistoryError message={error} />;
+  }
+
+  return (
+    <SearchResultsPicker
+      query={query}
+      results={results}
+      onSelect={(result) => {
+        try {
+          openSearchResult(result);
+        } catch (loadError) {
+          // The index may still list a session that was deleted or rewritten
+          setError(
+            `Could not open session ${result.sessionId}: ${
+              loadError instanceof Error ? loadError.message : 'Unknown error'
+            }`
+          );
+          return;
+        }
+        // Close the picker and return to the chat
+        store.dispatch(setActiveCommandJSX(false));
+        commandManager.clear();
+      }}
+    />
+  );
+};
+
+export const historyCommand: SlashCommand = {
+  name: 'history',
+  description: 'Search all saved sessions: /history <query>',
+  execute: async (config: Config, onConfigUpdate, args = '') => {
+    if (!args.trim()) {
+      return (
+        <Box flexDirection="column" paddingX={2} paddingY={1}>
+          <Box marginBottom={1}>
+            <Text bold color="cyan">
+              🔎 History
+            </Text>
+          </Box>
+          <Text color="yellow">Usage: /history &lt;search terms&gt;</Text>
+        </Box>
+      );
+    }
+
+    const results = new SessionSearchIndex(sessionRecorder.getStore()).search(
+      args
+    );
+
+    return <HistoryResults query={args.trim()} results={results} />;
+  },
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import { SlashCommand } from './types.js';
+import { Config } from '../schemas/config.js';
+import { switchProfile } from '../config.js';
+import { getModelInfo } from '../models.js';
+import { ProfilePicker } from '../components/ProfilePicker.js';
+
+const ModelNotice: React.FC<{ message: string }> = ({ message }) => (
+  <Box flexDirection="column" paddingX={2} paddingY={1}>
+    <Box marginBottom={1}>
+      <Text bold color="cyan">
+        🧠 Switch Model
+      </Text>
+    </Box>
+    <Text color="yellow">{message}</Text>
+  </Box>
+);
+
+export const modelCommand: SlashCommand = {
+  name: 'model',
+  description: 'Switch the model profile: /model [profile]',
+  execute: async (config: Config, onConfigUpdate, args = '') => {
+    const profiles = config.profiles ?? {};
+    if (Object.keys(profiles).length === 0) {
+      return (
+        <ModelNotice message='No profiles configured. Add a "profiles" map to .jecko.config.json.' />
+      );
+    }
+
+    // The conversation is kept; only the client is rebuilt for the new profile
+    const select = (name: string) => {
+      onConfigUpdate?.(switchProfile(config, name));
+    };
+
+    const name = args.trim();
+    if (name) {
+      try {
+        select(name);
+        return null;
+      } catch (error) {
+        return (
+          <ModelNotice
+            message={error instanceof Error ? error.message : 'Unknown error'}
+          />
+        );
+      }
+    }
+
+    return (
+      <ProfilePicker
+        profiles={profiles}
+        activeProfile={config.profile}
+        defaultProvider={config.provider}
+        contextWindows={Object.fromEntries(
+          Object.entries(profiles).map(([name, profile]) => [
+            name,
+            getModelInfo(config, profile.model).contextWindow,
+          ])
+        )}
+        onSelect={select}
+      />
+    );
+  },
+};
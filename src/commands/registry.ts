@@ -4,8 +4,19 @@ import { toolsCommand } from './tools.js';
 import { compactCommand } from './compact.js';
 import { exitCommand } from './exit.js';
 import { debugCommand } from './debug.js';
+import { resumeCommand } from './resume.js';
+import { forkCommand } from './fork.js';
+import { branchesCommand } from './branches.js';
+import { undoCommand } from './undo.js';
+import { retryCommand } from './retry.js';
+import { editCommand } from './edit.js';
+import { exportCommand } from './export.js';
+import { historyCommand } from './history.js';
+import { titleCommand } from './title.js';
+import { modelCommand } from './model.js';
+import { usageCommand } from './usage.js';
 
-const commands: SlashCommand[] = [configCommand, toolsCommand, compactCommand, exitCommand, debugCommand];
+const commands: SlashCommand[] = [configCommand, toolsCommand, compactCommand, exitCommand, debugCommand, resumeCommand, forkCommand, branchesCommand, undoCommand, retryCommand, editCommand, exportCommand, historyCommand, titleCommand, modelCommand, usageCommand];
 
 export function getAllCommands(): SlashCommand[] {
   return [...commands];
@@ -13,12 +24,25 @@ export function getAllCommands(): SlashCommand[] {
 
 export type { CommandMatch };
 
+// Splits "/name some args" into the command name and its arguments
+export function parseCommandQuery(query: string): { name: string; args: string } {
+  const input = query.startsWith('/') ? query.slice(1) : query;
+  const spaceIndex = input.indexOf(' ');
+  if (spaceIndex === -1) {
+    return { name: input, args: '' };
+  }
+  return {
+    name: input.slice(0, spaceIndex),
+    args: input.slice(spaceIndex + 1).trim(),
+  };
+}
+
 export function searchCommands(query: string): CommandMatch[] {
   if (!query.startsWith('/')) {
     return [];
   }
 
-  const searchTerm = query.slice(1).toLowerCase();
+  const searchTerm = parseCommandQuery(query).name.toLowerCase();
 
   if (searchTerm === '') {
     return commands.map((command) => ({ command, score: 1 }));
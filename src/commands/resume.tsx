@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Box, Text } from 'ink';
+import { SlashCommand } from './types.js';
+import { Config } from '../schemas/config.js';
+import { store } from '../store/index.js';
+import { setActiveCommandJSX } from '../store/slices/uiSlice.js';
+import { commandManager } from '../utils/commandManager.js';
+import { SessionPicker } from '../components/SessionPicker.js';
+import { sessionRecorder } from '../sessions/recorder.js';
+import { restoreSession } from '../sessions/restore.js';
+import { getProjectRoot } from '../sessions/project.js';
+import type { SessionSummary } from '../sessions/sessionStore.js';
+
+const ResumeError: React.FC<{ message: string }> = ({ message }) => (
+  <Box flexDirection="column" paddingX={2} paddingY={1}>
+    <Box marginBottom={1}>
+      <Text bold color="red">
+        🕘 Resume Session - Error
+      </Text>
+    </Box>
+    <Text color="red">{message}</Text>
+  </Box>
+);
+
+/** The session picker, replaced by an error if the chosen session won't load */
+const ResumePicker: React.FC<{
+  sessions: SessionSummary[];
+  projectRoot?: string;
+}> = ({ sessions, projectRoot }) => {
+  const [error, setError] = useState<string | null>(null);
+
+  if (error) {
+    return <ResumeError message={error} />;
+  }
+
+  return (
+    <SessionPicker
+      sessions={sessions}
+      projectRoot={projectRoot}
+      onSelect={(sessionId) => {
+        try {
+          restoreSession(
+            store.dispatch,
+            sessionRecorder.getStore().load(sessionId)
+          );
+        } catch (loadError) {
+          // The file may have been deleted or damaged since the list was built
+          setError(
+            `Could not resume session ${sessionId}: ${
+              loadError instanceof Error ? loadError.message : 'Unknown error'
+            }`
+          );
+          return;
+        }
+        // Close the picker and return to the chat
+        store.dispatch(setActiveCommandJSX(false));
+        commandManager.clear();
+      }}
+    />
+  );
+};
+
+export const resumeCommand: SlashCommand = {
+  name: 'resume',
+  description: 'Resume a saved conversation from this project (--all for every project)',
+  execute: async (config: Config, onConfigUpdate, args = '') => {
+    const sessionStore = sessionRecorder.getStore();
+    const currentId = store.getState().session.id;
+    const showAll = args.split(/\s+/).includes('--all');
+    const projectRoot = getProjectRoot();
+    const sessions = (
+      showAll ? sessionStore.list() : sessionStore.listForProject(projectRoot)
+    ).filter((session) => session.id !== currentId);
+
+    return (
+      <ResumePicker
+        sessions={sessions}
+        projectRoot={showAll ? undefined : projectRoot}
+      />
+    );
+  },
+};
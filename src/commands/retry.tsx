@@ -0,0 +1,63 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import { SlashCommand } from './types.js';
+import { Config } from '../schemas/config.js';
+
+interface RetryNoticeProps {
+  message: string;
+}
+
+const RetryNotice: React.FC<RetryNoticeProps> = ({ message }) => (
+  <Box flexDirection="column" paddingX={2} paddingY={1}>
+    <Box marginBottom={1}>
+      <Text bold color="cyan">
+        🔁 Retry
+      </Text>
+    </Box>
+    <Text color="yellow">{message}</Text>
+  </Box>
+);
+
+/**
+ * Applies "/retry [model] [temperature]" arguments on top of the config.
+ * A numeric argument is read as the temperature, anything else as the model.
+ */
+export function applyRetryArgs(config: Config, args: string): Config {
+  let model = config.openai.model;
+  let temperature = config.temperature;
+
+  for (const arg of args.split(/\s+/).filter(Boolean)) {
+    const value = Number(arg);
+    if (Number.isNaN(value)) {
+      model = arg;
+    } else if (value < 0 || value > 2) {
+      throw new Error(`Temperature must be between 0 and 2, got ${arg}`);
+    } else {
+      temperature = value;
+    }
+  }
+
+  return {
+    ...config,
+    openai: { ...config.openai, model },
+    temperature,
+  };
+}
+
+export const retryCommand: SlashCommand = {
+  name: 'retry',
+  description: 'Regenerate the last answer, optionally: /retry [model] [temperature]',
+  execute: async (config: Config) => {
+    // This command will be handled specially in the chat component
+    // since it needs the active client and streaming callbacks
+    return (
+      <Box paddingX={2} paddingY={1}>
+        <Text color="gray">
+          Retry will be handled by the chat interface...
+        </Text>
+      </Box>
+    );
+  },
+};
+
+export { RetryNotice };
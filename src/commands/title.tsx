@@ -0,0 +1,47 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import { SlashCommand } from './types.js';
+import { Config } from '../schemas/config.js';
+import { store } from '../store/index.js';
+import { setSessionTitle } from '../store/slices/sessionSlice.js';
+
+// Outside a session (e.g. while one is being restored) a title would belong
+// to nothing and be overwritten when the next session starts
+const NoSessionDisplay: React.FC = () => (
+  <Box paddingX={2} paddingY={1}>
+    <Text color="yellow">There is no active session to rename.</Text>
+  </Box>
+);
+
+export const titleCommand: SlashCommand = {
+  name: 'title',
+  description: 'Show or rename the session: /title <text>',
+  execute: async (config: Config, onConfigUpdate, args = '') => {
+    const { session } = store.getState();
+    if (!session.id) {
+      return <NoSessionDisplay />;
+    }
+
+    const title = args.replace(/\s+/g, ' ').trim();
+    if (title) {
+      store.dispatch(setSessionTitle({ title }));
+      // Return straight to the chat; the status bar shows the new title
+      return null;
+    }
+
+    return (
+      <Box flexDirection="column" paddingX={2} paddingY={1}>
+        <Box marginBottom={1}>
+          <Text bold color="cyan">
+            🏷️ Session Title
+          </Text>
+        </Box>
+        <Text color="white">{session.title ?? 'Untitled session'}</Text>
+        {session.summary && <Text color="gray">{session.summary}</Text>}
+        <Box marginTop={1}>
+          <Text color="gray">Rename with /title &lt;text&gt;</Text>
+        </Box>
+      </Box>
+    );
+  },
+};
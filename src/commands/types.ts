@@ -6,7 +6,8 @@ export interface SlashCommand {
   description: string;
   execute: (
     config: Config,
-    onConfigUpdate?: (newConfig: Config) => void
+    onConfigUpdate?: (newConfig: Config) => void,
+    args?: string // Text typed after the command name, e.g. "/retry gpt-4o"
   ) => Promise<JSX.Element | null>;
 }
 
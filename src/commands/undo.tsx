@@ -0,0 +1,52 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import { SlashCommand } from './types.js';
+import { Config } from '../schemas/config.js';
+import { store } from '../store/index.js';
+import {
+  findLastUserMessageIndex,
+  undoLastTurn,
+} from '../store/slices/chatSlice.js';
+import { clearActiveToolCalls } from '../store/slices/uiSlice.js';
+import {
+  clearUsage,
+  findTurnUsage,
+  setCurrentUsage,
+} from '../store/slices/usageSlice.js';
+
+const UndoNotice: React.FC<{ message: string }> = ({ message }) => (
+  <Box flexDirection="column" paddingX={2} paddingY={1}>
+    <Box marginBottom={1}>
+      <Text bold color="cyan">
+        ↩️ Undo
+      </Text>
+    </Box>
+    <Text color="yellow">{message}</Text>
+  </Box>
+);
+
+export const undoCommand: SlashCommand = {
+  name: 'undo',
+  description: 'Remove the last user turn and everything after it',
+  execute: async (config: Config) => {
+    const { messages, isLoading } = store.getState().chat;
+    if (isLoading) {
+      return <UndoNotice message="Wait for the current response to finish before undoing." />;
+    }
+
+    const lastUserIndex = findLastUserMessageIndex(messages);
+    if (lastUserIndex === -1) {
+      return <UndoNotice message="Nothing to undo yet." />;
+    }
+
+    store.dispatch(undoLastTurn());
+    store.dispatch(clearActiveToolCalls());
+
+    // Put the context meter back to where it was before the removed turn
+    const usage = findTurnUsage(messages.slice(0, lastUserIndex));
+    store.dispatch(usage ? setCurrentUsage(usage) : clearUsage());
+
+    // Return straight to the chat, which re-renders the shortened history
+    return null;
+  },
+};
@@ -0,0 +1,10 @@
+import React from 'react';
+import { SlashCommand } from './types.js';
+import { store } from '../store/index.js';
+import { UsageView } from '../components/UsageView.js';
+
+export const usageCommand: SlashCommand = {
+  name: 'usage',
+  description: 'Show tokens and cost of this session by turn and API call',
+  execute: async () => <UsageView turns={store.getState().usage.turns} />,
+};
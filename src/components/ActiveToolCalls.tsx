@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Box, Text } from 'ink';
 import { useAppSelector } from '../store/hooks.js';
 import type { ActiveToolCall } from '../store/slices/uiSlice.js';
@@ -13,6 +13,8 @@ const getStatusIcon = (status: ActiveToolCall['status']): string => {
       return '✅';
     case 'error':
       return '❌';
+    case 'aborted':
+      return '⏹';
     default:
       return '⚪';
   }
@@ -28,6 +30,8 @@ const getStatusColor = (status: ActiveToolCall['status']): string => {
       return 'green';
     case 'error':
       return 'red';
+    case 'aborted':
+      return 'gray';
     default:
       return 'gray';
   }
@@ -38,8 +42,23 @@ const formatDuration = (startTime: number, endTime?: number): string => {
   return `${(duration / 1000).toFixed(1)}s`;
 };
 
+const isInFlight = (toolCall: ActiveToolCall): boolean =>
+  toolCall.status === 'starting' || toolCall.status === 'running';
+
 export const ActiveToolCalls: React.FC = () => {
   const { activeToolCalls } = useAppSelector((state) => state.ui);
+  const inFlightCount = activeToolCalls.filter(isInFlight).length;
+  const hasInFlight = inFlightCount > 0;
+  const [, setTick] = useState(0);
+
+  // Keep the durations of calls that are still running ticking
+  useEffect(() => {
+    if (!hasInFlight) {
+      return;
+    }
+    const timer = setInterval(() => setTick((tick) => tick + 1), 500);
+    return () => clearInterval(timer);
+  }, [hasInFlight]);
 
   if (activeToolCalls.length === 0) {
     return null;
@@ -51,6 +70,9 @@ export const ActiveToolCalls: React.FC = () => {
         <Text bold color="cyan">
           Active Tool Calls:
         </Text>
+        {inFlightCount > 1 && (
+          <Text color="gray"> {inFlightCount} running in parallel</Text>
+        )}
       </Box>
       {activeToolCalls.map((toolCall) => (
         <Box key={toolCall.id} marginBottom={0}>
@@ -62,7 +84,8 @@ export const ActiveToolCalls: React.FC = () => {
           <Box flexGrow={1}>
             <Text color={getStatusColor(toolCall.status)}>
               {toolCall.displayText}
-              {toolCall.status === 'completed' || toolCall.status === 'error' ? (
+              {toolCall.status === 'aborted' && ' (cancelled)'}
+              {toolCall.endTime ? (
                 <Text color="gray">
                   {' '}({formatDuration(toolCall.startTime, toolCall.endTime)})
                 </Text>
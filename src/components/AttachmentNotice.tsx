@@ -0,0 +1,25 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+
+interface AttachmentNoticeProps {
+  message: string;
+}
+
+export const AttachmentNotice: React.FC<AttachmentNoticeProps> = ({
+  message,
+}) => (
+  <Box flexDirection="column" paddingX={2} paddingY={1}>
+    <Box marginBottom={1}>
+      <Text bold color="cyan">
+        📎 Attachments
+      </Text>
+    </Box>
+    <Text color="yellow">{message}</Text>
+    <Box marginTop={1}>
+      <Text color="gray">
+        Attach images with @path/to/image.png (or @"path with spaces.png") •
+        Esc: Back
+      </Text>
+    </Box>
+  </Box>
+);
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import type { Branch } from '../store/slices/chatSlice.js';
+
+export interface BranchTreeEntry {
+  branch: Branch;
+  depth: number;
+  messageCount: number;
+  forkPreview?: string;
+}
+
+interface BranchTreeProps {
+  entries: BranchTreeEntry[];
+  activeBranchId: string;
+  onSelect: (branchId: string) => void;
+}
+
+export const BranchTree: React.FC<BranchTreeProps> = ({
+  entries,
+  activeBranchId,
+  onSelect,
+}) => {
+  const [selectedIndex, setSelectedIndex] = useState(() =>
+    Math.max(
+      0,
+      entries.findIndex((entry) => entry.branch.id === activeBranchId)
+    )
+  );
+
+  useInput((input, key) => {
+    if (key.upArrow) {
+      setSelectedIndex((index) => Math.max(0, index - 1));
+    } else if (key.downArrow) {
+      setSelectedIndex((index) => Math.min(entries.length - 1, index + 1));
+    } else if (key.return && entries[selectedIndex]) {
+      onSelect(entries[selectedIndex].branch.id);
+    }
+  });
+
+  return (
+    <Box flexDirection="column" paddingX={2} paddingY={1}>
+      <Box marginBottom={1}>
+        <Text bold color="cyan">
+          🌿 Branches
+        </Text>
+      </Box>
+
+      {entries.map((entry, index) => {
+        const isSelected = index === selectedIndex;
+        const isActive = entry.branch.id === activeBranchId;
+        return (
+          <Box key={entry.branch.id} flexDirection="column">
+            <Box>
+              <Text color={isSelected ? 'green' : 'white'}>
+                {isSelected ? '> ' : '  '}
+                {'  '.repeat(entry.depth)}
+                {entry.depth > 0 ? '└ ' : ''}
+                {entry.branch.name}
+              </Text>
+              <Text color="gray"> ({entry.messageCount} messages)</Text>
+              {isActive && <Text color="yellow"> ● current</Text>}
+            </Box>
+            {entry.forkPreview && (
+              <Text color="gray">
+                {'    '}
+                {'  '.repeat(entry.depth)}
+                forked after: {entry.forkPreview}
+              </Text>
+            )}
+          </Box>
+        );
+      })}
+
+      <Box marginTop={1}>
+        <Text color="gray">↑↓ Navigate • Enter: Switch • Esc: Cancel</Text>
+      </Box>
+    </Box>
+  );
+};
@@ -1,10 +1,18 @@
 import React from 'react';
+import { basename } from 'path';
 import { Box, Text, Static,  } from 'ink';
 import { StreamingText } from './StreamingText.js';
+import type { TokenUsage } from '../store/slices/usageSlice.js';
+import {
+  getImageParts,
+  getTextContent,
+  type MessageContent,
+} from '../utils/messageContent.js';
 
 export interface Message {
+  id?: string;
   role: 'user' | 'assistant' | 'tool' | 'system';
-  content: string;
+  content: MessageContent;
   timestamp: number;
   toolName?: string;
   toolArgs?: any;
@@ -14,11 +22,60 @@ export interface Message {
   tool_calls?: any[];
   isInternal?: boolean; // Flag for internal messages that shouldn't be displayed to user
   displayContent?: string; // User-friendly display content (separate from LLM content)
+  reasoning?: string; // Reasoning text returned by thinking models
+  usage?: TokenUsage; // Context usage after the turn that ended with this message
+  mode?: 'CHAT' | 'AGENT'; // Mode a user message was sent in
 }
 
+// Reasoning is folded to one line unless Ctrl+T turned expanding on. Printed
+// messages can't change, so the toggle applies to the answer being streamed
+// and those after it.
+const ThinkingBlock: React.FC<{ reasoning: string; expanded: boolean }> = ({
+  reasoning,
+  expanded,
+}) => {
+  const text = reasoning.trim();
+  const words = text.split(/\s+/).length;
+  return (
+    <Box flexDirection="column">
+      <Text color="gray" italic>
+        {expanded ? '▾' : '▸'} Thinking ({words} words)
+        {!expanded && <Text dimColor> • Ctrl+T to expand from now on</Text>}
+      </Text>
+      {expanded && (
+        <Box paddingLeft={2}>
+          <Text color="gray">{text}</Text>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+// One chip per attached image, after the message text
+const AttachmentChips: React.FC<{ content: MessageContent }> = ({ content }) => {
+  const images = getImageParts(content);
+  if (images.length === 0) {
+    return null;
+  }
+  return (
+    <Box marginLeft={1}>
+      {images.map((image, index) => (
+        <Text key={index} color="black" backgroundColor="cyan">
+          {' '}📎 {basename(image.name ?? 'image')}{' '}
+        </Text>
+      ))}
+    </Box>
+  );
+};
+
 // Memoized message component to prevent unnecessary re-renders
-const MessageItem = React.memo<{ message: Message; index: number }>(({ message }) => (
-  <Box marginBottom={1} flexDirection={message.role === 'user' ? 'row' : 'column'}>
+const MessageItem = React.memo<{ message: Message; index: number; highlighted?: boolean; showThinking?: boolean }>(({ message, highlighted, showThinking }) => (
+  <Box
+    marginBottom={1}
+    flexDirection={message.role === 'user' ? 'row' : 'column'}
+    borderStyle={highlighted ? 'round' : undefined}
+    borderColor="magenta"
+  >
     <Text
       bold
       color={
@@ -39,31 +96,45 @@ const MessageItem = React.memo<{ message: Message; index: number }>(({ message }
             ? 'System: '
             : 'Assistant: '}
     </Text>
+    {message.role === 'assistant' && message.reasoning && (
+      <ThinkingBlock reasoning={message.reasoning} expanded={!!showThinking} />
+    )}
     <Box>
       {message.role === 'assistant' && message.isStreaming ? (
-        <StreamingText text={message.content} />
+        <StreamingText text={getTextContent(message.content)} />
       ) : message.role === 'assistant' ? (
-        <StreamingText text={message.content} />
+        <StreamingText text={getTextContent(message.content)} />
       ) : (
         <Text color={message.role === 'tool' ? 'yellow' : message.role === 'system' ? 'gray' : 'white'}>
-          {message.displayContent || message.content}
+          {message.displayContent || getTextContent(message.content)}
         </Text>
       )}
     </Box>
+    <AttachmentChips content={message.content} />
   </Box>
 ));
 
 interface MessageListProps {
   messages: Message[];
+  historyRevision: number;
+  highlightedMessageId?: string | null;
   isLoading: boolean;
   showInformationalHeader: boolean;
+  showThinking: boolean;
 }
 
 export const MessageList: React.FC<MessageListProps> = ({ 
   messages, 
+  historyRevision,
+  highlightedMessageId,
   isLoading, 
-  showInformationalHeader 
+  showInformationalHeader,
+  showThinking,
 }) => {
+  const highlighted = highlightedMessageId
+    ? messages.find((msg) => msg.id === highlightedMessageId)
+    : undefined;
+
   return (
     <Box flexDirection="column" flexGrow={1} paddingX={1}>
       {/* Show welcome message only when there are no messages and not in command mode */}
@@ -77,19 +148,33 @@ export const MessageList: React.FC<MessageListProps> = ({
       )}
       
       {/* Use Static for completed messages to prevent re-renders - only when we have messages */}
+      {/* Static only ever appends, so it is remounted (reprinting everything) only when history is rewritten */}
       {messages.length > 0 && (
-        <Static items={messages.filter(msg => msg.isComplete !== false && !msg.isInternal && msg.role !== 'system')}>
+        <Static key={historyRevision} items={messages.filter(msg => msg.isComplete !== false && !msg.isInternal && msg.role !== 'system')}>
           {(msg, idx) => (
-            <MessageItem key={`completed-${msg.timestamp}-${idx}-${msg.role}`} message={msg} index={idx} />
+            <MessageItem
+              key={`completed-${msg.timestamp}-${idx}-${msg.role}`}
+              message={msg}
+              index={idx}
+              showThinking={showThinking}
+            />
           )}
         </Static>
       )}
       
+      {/* A search hit is repeated below the transcript; it may be far up in the scrollback */}
+      {highlighted && (
+        <Box flexDirection="column">
+          <Text color="magenta">🔎 Search match from {new Date(highlighted.timestamp).toLocaleString()}</Text>
+          <MessageItem message={highlighted} index={0} highlighted showThinking={showThinking} />
+        </Box>
+      )}
+
       {/* Render streaming/incomplete messages separately - only if not complete */}
       {messages
         .filter(msg => msg.isComplete === false && !msg.isInternal && msg.role !== 'system')
         .map((msg, idx) => (
-          <MessageItem key={`streaming-${msg.timestamp}-${idx}-${msg.role}`} message={msg} index={idx} />
+          <MessageItem key={`streaming-${msg.timestamp}-${idx}-${msg.role}`} message={msg} index={idx} showThinking={showThinking} />
         ))}
       
       {isLoading && (
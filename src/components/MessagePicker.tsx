@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import type { Message } from './MessageList.js';
+import { describeContent } from '../utils/messageContent.js';
+
+const VISIBLE_COUNT = 10;
+
+interface MessagePickerProps {
+  title: string;
+  messages: Message[];
+  actionLabel: string;
+  onSelect: (message: Message) => void;
+}
+
+const formatPreview = (message: Message): string => {
+  const text = (message.displayContent || describeContent(message.content))
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > 70 ? `${text.slice(0, 67)}...` : text;
+};
+
+export const MessagePicker: React.FC<MessagePickerProps> = ({
+  title,
+  messages,
+  actionLabel,
+  onSelect,
+}) => {
+  // Start at the most recent message
+  const [selectedIndex, setSelectedIndex] = useState(
+    Math.max(0, messages.length - 1)
+  );
+
+  useInput((input, key) => {
+    if (key.upArrow) {
+      setSelectedIndex((index) => Math.max(0, index - 1));
+    } else if (key.downArrow) {
+      setSelectedIndex((index) => Math.min(messages.length - 1, index + 1));
+    } else if (key.return && messages[selectedIndex]) {
+      onSelect(messages[selectedIndex]);
+    }
+  });
+
+  // Keep the selected row inside the visible window
+  const windowStart = Math.max(0, selectedIndex - VISIBLE_COUNT + 1);
+  const visibleMessages = messages.slice(
+    windowStart,
+    windowStart + VISIBLE_COUNT
+  );
+
+  return (
+    <Box flexDirection="column" paddingX={2} paddingY={1}>
+      <Box marginBottom={1}>
+        <Text bold color="cyan">
+          {title}
+        </Text>
+      </Box>
+
+      {messages.length === 0 ? (
+        <Text color="gray">No messages in this conversation yet.</Text>
+      ) : (
+        visibleMessages.map((message, index) => {
+          const isSelected = windowStart + index === selectedIndex;
+          return (
+            <Box key={message.id}>
+              <Text color={isSelected ? 'green' : 'white'}>
+                {isSelected ? '> ' : '  '}
+              </Text>
+              <Text bold color={message.role === 'user' ? 'green' : 'blue'}>
+                {message.role === 'user' ? 'You: ' : 'Assistant: '}
+              </Text>
+              <Text color={isSelected ? 'white' : 'gray'}>
+                {formatPreview(message)}
+              </Text>
+            </Box>
+          );
+        })
+      )}
+
+      <Box marginTop={1}>
+        <Text color="gray">
+          ↑↓ Navigate • Enter: {actionLabel} • Esc: Cancel
+        </Text>
+      </Box>
+    </Box>
+  );
+};
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import type { Profile } from '../schemas/config.js';
+
+interface ProfilePickerProps {
+  profiles: Record<string, Profile>;
+  activeProfile?: string;
+  defaultProvider: string;
+  contextWindows: Record<string, number>; // By profile name, from the model registry
+  onSelect: (name: string) => void;
+}
+
+export const ProfilePicker: React.FC<ProfilePickerProps> = ({
+  profiles,
+  activeProfile,
+  defaultProvider,
+  contextWindows,
+  onSelect,
+}) => {
+  const names = Object.keys(profiles);
+  const [selectedIndex, setSelectedIndex] = useState(
+    Math.max(0, activeProfile ? names.indexOf(activeProfile) : 0)
+  );
+
+  useInput((input, key) => {
+    if (key.upArrow) {
+      setSelectedIndex((index) => Math.max(0, index - 1));
+    } else if (key.downArrow) {
+      setSelectedIndex((index) => Math.min(names.length - 1, index + 1));
+    } else if (key.return && names[selectedIndex]) {
+      onSelect(names[selectedIndex]);
+    }
+  });
+
+  return (
+    <Box flexDirection="column" paddingX={2} paddingY={1}>
+      <Box marginBottom={1}>
+        <Text bold color="cyan">
+          🧠 Switch Model
+        </Text>
+      </Box>
+
+      {names.map((name, index) => {
+        const profile = profiles[name];
+        const isSelected = index === selectedIndex;
+        return (
+          <Text key={name} color={isSelected ? 'green' : 'white'}>
+            {isSelected ? '> ' : '  '}
+            {name}
+            <Text color="gray">
+              {' '}
+              {profile.provider ?? defaultProvider}/{profile.model}
+              {' • '}
+              {Math.round(
+                (profile.contextWindow ?? contextWindows[name]) / 1000
+              )}
+              k context
+            </Text>
+            {name === activeProfile && <Text color="cyan"> (active)</Text>}
+          </Text>
+        );
+      })}
+
+      <Box marginTop={1}>
+        <Text color="gray">↑↓ Navigate • Enter: Switch • Esc: Cancel</Text>
+      </Box>
+    </Box>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import type { SearchResult } from '../sessions/search.js';
+
+const VISIBLE_COUNT = 8;
+
+interface SearchResultsPickerProps {
+  query: string;
+  results: SearchResult[];
+  onSelect: (result: SearchResult) => void;
+}
+
+const ROLE_LABELS: Record<SearchResult['role'], string> = {
+  user: 'You',
+  assistant: 'Assistant',
+  tool: 'Tool',
+  system: 'System',
+};
+
+const formatDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+// Splits a snippet so matched terms can be highlighted
+const highlightTerms = (snippet: string, terms: string[]) => {
+  const pattern = new RegExp(
+    `(${terms.map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`,
+    'gi'
+  );
+  return snippet.split(pattern).map((part, index) =>
+    index % 2 === 1 ? (
+      <Text key={index} bold color="yellow">
+        {part}
+      </Text>
+    ) : (
+      <Text key={index}>{part}</Text>
+    )
+  );
+};
+
+export const SearchResultsPicker: React.FC<SearchResultsPickerProps> = ({
+  query,
+  results,
+  onSelect,
+}) => {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  useInput((input, key) => {
+    if (key.upArrow) {
+      setSelectedIndex((index) => Math.max(0, index - 1));
+    } else if (key.downArrow) {
+      setSelectedIndex((index) => Math.min(results.length - 1, index + 1));
+    } else if (key.return && results[selectedIndex]) {
+      onSelect(results[selectedIndex]);
+    }
+  });
+
+  // Keep the selected row inside the visible window
+  const windowStart = Math.max(0, selectedIndex - VISIBLE_COUNT + 1);
+  const visibleResults = results.slice(windowStart, windowStart + VISIBLE_COUNT);
+
+  return (
+    <Box flexDirection="column" paddingX={2} paddingY={1}>
+      <Box marginBottom={1}>
+        <Text bold color="cyan">
+          🔎 History: "{query}"
+        </Text>
+      </Box>
+
+      {results.length === 0 ? (
+        <Text color="gray">No saved messages match.</Text>
+      ) : (
+        visibleResults.map((result, index) => {
+          const isSelected = windowStart + index === selectedIndex;
+          return (
+            <Box
+              key={`${result.sessionId}-${result.messageId}`}
+              flexDirection="column"
+              marginBottom={1}
+            >
+              <Text color={isSelected ? 'green' : 'white'}>
+                {isSelected ? '> ' : '  '}
+                {result.title}
+                <Text color="gray">
+                  {' '}
+                  • {formatDate(result.timestamp)} • {result.sessionId}
+                </Text>
+              </Text>
+              <Text color="gray">
+                {'    '}
+                {ROLE_LABELS[result.role]}: {highlightTerms(result.snippet, result.terms)}
+              </Text>
+            </Box>
+          );
+        })
+      )}
+
+      <Box marginTop={1}>
+        <Text color="gray">↑↓ Navigate • Enter: Open • Esc: Cancel</Text>
+      </Box>
+    </Box>
+  );
+};
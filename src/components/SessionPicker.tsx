@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { homedir } from 'os';
+import type { SessionSummary } from '../sessions/sessionStore.js';
+
+const VISIBLE_COUNT = 10;
+
+interface SessionPickerProps {
+  sessions: SessionSummary[];
+  projectRoot?: string; // Sessions are limited to this project; all when unset
+  onSelect: (sessionId: string) => void;
+}
+
+const formatCwd = (cwd: string): string => {
+  const home = homedir();
+  return cwd.startsWith(home) ? `~${cwd.slice(home.length)}` : cwd;
+};
+
+const formatDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export const SessionPicker: React.FC<SessionPickerProps> = ({
+  sessions,
+  projectRoot,
+  onSelect,
+}) => {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  useInput((input, key) => {
+    if (key.upArrow) {
+      setSelectedIndex((index) => Math.max(0, index - 1));
+    } else if (key.downArrow) {
+      setSelectedIndex((index) => Math.min(sessions.length - 1, index + 1));
+    } else if (key.return && sessions[selectedIndex]) {
+      onSelect(sessions[selectedIndex].id);
+    }
+  });
+
+  // Keep the selected row inside the visible window
+  const windowStart = Math.max(0, selectedIndex - VISIBLE_COUNT + 1);
+  const visibleSessions = sessions.slice(
+    windowStart,
+    windowStart + VISIBLE_COUNT
+  );
+
+  return (
+    <Box flexDirection="column" paddingX={2} paddingY={1}>
+      <Box marginBottom={1}>
+        <Text bold color="cyan">
+          🕘 Resume Session
+        </Text>
+        <Text color="gray">
+          {' '}
+          ({projectRoot ? formatCwd(projectRoot) : 'all projects'})
+        </Text>
+      </Box>
+
+      {sessions.length === 0 ? (
+        <Text color="gray">
+          {projectRoot
+            ? 'No saved sessions for this project. Use /resume --all to see every project.'
+            : 'No saved sessions found.'}
+        </Text>
+      ) : (
+        visibleSessions.map((session, index) => {
+          const isSelected = windowStart + index === selectedIndex;
+          return (
+            <Box key={session.id} flexDirection="column" marginBottom={1}>
+              <Text color={isSelected ? 'green' : 'white'}>
+                {isSelected ? '> ' : '  '}
+                {session.title}
+              </Text>
+              {session.summary && (
+                <Text color="gray">
+                  {'    '}
+                  {session.summary}
+                </Text>
+              )}
+              <Text color="gray">
+                {'    '}
+                {formatDate(session.updatedAt)} • {formatCwd(session.cwd)} •{' '}
+                {session.messageCount} messages • {session.id}
+              </Text>
+            </Box>
+          );
+        })
+      )}
+
+      <Box marginTop={1}>
+        <Text color="gray">↑↓ Navigate • Enter: Resume • Esc: Cancel</Text>
+      </Box>
+    </Box>
+  );
+};
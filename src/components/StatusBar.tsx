@@ -1,5 +1,7 @@
 import React from 'react';
 import { Box, Text } from 'ink';
+import type { RetryStatus } from '../store/slices/uiSlice.js';
+import { formatCost } from '../models.js';
 
 export type Mode = 'CHAT' | 'AGENT';
 
@@ -8,28 +10,66 @@ interface ContextUsageInfo {
   total: number;
   usedPercentage: number;
   remainingPercentage: number;
+  windowKnown: boolean;
 }
 
 interface StatusBarProps {
   mode: Mode;
+  title?: string | null;
+  profile?: string; // Active model profile
+  overrides?: string; // Active CLI config overrides, e.g. "model=gpt-4o temp=0.2"
+  retryStatus?: RetryStatus | null;
+  saveError?: string | null; // Set once the session can no longer be saved
   contextUsageInfo: ContextUsageInfo | null;
+  reasoningTokens?: number; // Hidden reasoning tokens of the latest call
+  sessionCost?: number; // USD spent in this session so far
   showCommandSelector: boolean;
   showInformationalHeader: boolean;
 }
 
 export const StatusBar: React.FC<StatusBarProps> = ({
   mode,
+  title,
+  profile,
+  overrides,
+  retryStatus,
+  saveError,
   contextUsageInfo,
+  reasoningTokens,
+  sessionCost,
   showCommandSelector,
   showInformationalHeader,
 }) => {
   return (
     <Box justifyContent="space-between" paddingX={1}>
-      <Text color="cyan">Mode: {mode}</Text>
       <Box>
+        <Text color="cyan">Mode: {mode}</Text>
+        {profile && <Text color="blue"> • {profile}</Text>}
+        {title && <Text color="gray"> • {title}</Text>}
+        {overrides && <Text color="magenta"> • ⚙ {overrides}</Text>}
+        {retryStatus && (
+          <Text color="yellow">
+            {' '}
+            • retrying {retryStatus.attempt}/{retryStatus.maxRetries}…
+          </Text>
+        )}
+        {saveError && (
+          <Text color="red"> • ⚠ session not saved: {saveError}</Text>
+        )}
+      </Box>
+      <Box>
+        {reasoningTokens ? (
+          <Text color="gray">
+            {reasoningTokens.toLocaleString()} reasoning tokens •{' '}
+          </Text>
+        ) : null}
+        {sessionCost !== undefined && (
+          <Text color="gray">{formatCost(sessionCost)} • </Text>
+        )}
         {contextUsageInfo ? (
           <Text color={contextUsageInfo.usedPercentage > 80 ? 'red' : 
                        contextUsageInfo.usedPercentage > 60 ? 'yellow' : 'green'}>
+            {contextUsageInfo.windowKnown ? '' : '~'}
             {contextUsageInfo.remainingPercentage}% context remaining
           </Text>
         ) : (
@@ -0,0 +1,123 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import { formatCost } from '../models.js';
+import {
+  getSessionUsage,
+  sumUsage,
+  type TokenUsage,
+  type TurnUsage,
+} from '../store/slices/usageSlice.js';
+
+interface UsageViewProps {
+  turns: TurnUsage[];
+}
+
+// Older turns are summed into the session total but not listed
+const MAX_TURNS_SHOWN = 10;
+
+const formatTokens = (usage: TokenUsage): string =>
+  `${usage.promptTokens.toLocaleString()} in / ${usage.completionTokens.toLocaleString()} out` +
+  (usage.reasoningTokens
+    ? ` (${usage.reasoningTokens.toLocaleString()} reasoning)`
+    : '');
+
+const formatUsageCost = (usage: TokenUsage): string =>
+  usage.cost === undefined ? 'no price' : formatCost(usage.cost);
+
+const formatTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export const UsageView: React.FC<UsageViewProps> = ({ turns }) => {
+  const calls = turns.flatMap((turn) => turn.calls);
+  const total = getSessionUsage(turns);
+  const models = Array.from(new Set(calls.map((call) => call.model)));
+  const unpriced = models.filter((model) =>
+    calls.some((call) => call.model === model && call.cost === undefined)
+  );
+  const turnsWithCalls = turns
+    .map((turn, index) => ({ turn, number: index + 1 }))
+    .filter(({ turn }) => turn.calls.length > 0);
+  const shown = turnsWithCalls.slice(-MAX_TURNS_SHOWN);
+
+  return (
+    <Box flexDirection="column" paddingX={2} paddingY={1}>
+      <Box marginBottom={1}>
+        <Text bold color="cyan">
+          💰 Usage
+        </Text>
+      </Box>
+
+      {calls.length === 0 ? (
+        <Text color="gray">No API calls in this session yet.</Text>
+      ) : (
+        <>
+          <Text>
+            Session: {calls.length} call{calls.length === 1 ? '' : 's'} •{' '}
+            {formatTokens(total)} •{' '}
+            <Text bold color="green">
+              {formatUsageCost(total)}
+            </Text>
+          </Text>
+
+          {models.length > 1 && (
+            <Box flexDirection="column" marginTop={1}>
+              {models.map((model) => {
+                const usage = sumUsage(
+                  calls.filter((call) => call.model === model)
+                );
+                return (
+                  <Text key={model} color="gray">
+                    {'  '}
+                    {model}: {formatTokens(usage)} • {formatUsageCost(usage)}
+                  </Text>
+                );
+              })}
+            </Box>
+          )}
+
+          <Box flexDirection="column" marginTop={1}>
+            {shown.map(({ turn, number }) => (
+              <Box key={number} flexDirection="column">
+                <Text>
+                  <Text color="yellow">#{number}</Text>{' '}
+                  {formatTime(turn.startedAt)} {turn.kind} •{' '}
+                  {formatTokens(sumUsage(turn.calls))} •{' '}
+                  {formatUsageCost(sumUsage(turn.calls))}
+                </Text>
+                {turn.calls.length > 1 &&
+                  turn.calls.map((call, index) => (
+                    <Text key={index} color="gray">
+                      {'    '}
+                      {call.model}: {formatTokens(call)} •{' '}
+                      {formatUsageCost(call)}
+                    </Text>
+                  ))}
+              </Box>
+            ))}
+          </Box>
+
+          {unpriced.length > 0 && (
+            <Box marginTop={1}>
+              <Text color="yellow">
+                No prices for {unpriced.join(', ')}. Add them under{' '}
+                {'models.<name>.pricing'} in the config.
+              </Text>
+            </Box>
+          )}
+        </>
+      )}
+
+      <Box marginTop={1}>
+        <Text color="gray">
+          {turnsWithCalls.length > shown.length
+            ? `Showing the last ${shown.length} turns • `
+            : ''}
+          Esc: Back
+        </Text>
+      </Box>
+    </Box>
+  );
+};
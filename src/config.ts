@@ -1,11 +1,18 @@
 import { cosmiconfig } from 'cosmiconfig';
+import type { ZodError } from 'zod';
 import { homedir } from 'os';
 import { join } from 'path';
-import { ConfigSchema, type Config } from './schemas/config.js';
+import { ConfigSchema, type Config, type Profile } from './schemas/config.js';
+import { builtInTools } from './tools/index.js';
 
 const CONFIG_NAME = '.jecko.config.json';
 
-export async function loadConfig(): Promise<Config> {
+/**
+ * @param options.quiet - Skip the "Config loaded" notice, e.g. when stdout is piped
+ */
+export async function loadConfig(
+  options: { quiet?: boolean } = {}
+): Promise<Config> {
   const explorer = cosmiconfig('jecko', {
     searchPlaces: [
       CONFIG_NAME,
@@ -33,9 +40,13 @@ export async function loadConfig(): Promise<Config> {
     }
 
     const validatedConfig = ConfigSchema.parse(result.config);
-    console.log(`✓ Config loaded from: ${result.filepath}`);
+    if (!options.quiet) {
+      console.log(`✓ Config loaded from: ${result.filepath}`);
+    }
 
-    return validatedConfig;
+    return validatedConfig.profile
+      ? applyProfile(validatedConfig, validatedConfig.profile)
+      : validatedConfig;
   } catch (error) {
     if (error instanceof Error) {
       throw new Error(`Config validation failed: ${error.message}`);
@@ -44,6 +55,188 @@ export async function loadConfig(): Promise<Config> {
   }
 }
 
+export interface ConfigOverrides {
+  profile?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  baseURL?: string;
+  tools?: string[];
+  mcp?: boolean; // false disables every configured MCP server
+}
+
+// Configs derived at runtime (profiles, CLI flags) remember what they came from
+const derivedConfigs = new WeakMap<
+  Config,
+  { base: Config; overrides?: ConfigOverrides }
+>();
+
+const formatIssue = (error: ZodError): string => {
+  const issue = error.issues[0];
+  return `${issue.path.join('.')}: ${issue.message}`;
+};
+
+// A baseURL belongs to whichever provider the config ends up using
+const routeBaseURL = (
+  config: Config,
+  provider: Config['provider'],
+  baseURL: string | undefined
+): Pick<Config, 'openai' | 'anthropic' | 'ollama'> => ({
+  openai:
+    provider === 'openai' && baseURL
+      ? { ...config.openai, baseURL }
+      : config.openai,
+  anthropic:
+    config.anthropic && provider === 'anthropic' && baseURL
+      ? { ...config.anthropic, baseURL }
+      : config.anthropic,
+  ollama:
+    provider === 'ollama' && baseURL ? { ...config.ollama, baseURL } : config.ollama,
+});
+
+// Built-in tools are known up front; MCP tools (`server:tool`) only once their
+// server connects, so for those only the server name is checked
+const assertKnownTools = (config: Config, tools: string[]): void => {
+  const builtInNames = builtInTools.map((tool) => tool.name);
+  const unknown = tools.filter((name) => {
+    const server = name.includes(':') ? name.split(':')[0] : undefined;
+    return server
+      ? !(server in config.mcpServers)
+      : !builtInNames.includes(name);
+  });
+  if (unknown.length > 0) {
+    const mcpServers = Object.keys(config.mcpServers);
+    throw new Error(
+      `Unknown tool${unknown.length > 1 ? 's' : ''} ${unknown.join(', ')} (available: ${builtInNames.join(', ')}${
+        mcpServers.length ? `, or <server>:<tool> for MCP servers ${mcpServers.join(', ')}` : ''
+      })`
+    );
+  }
+};
+
+/**
+ * Applies a named profile's model settings on top of a config. Fields the
+ * profile leaves out keep their top-level values.
+ */
+export function applyProfile(config: Config, name: string): Config {
+  const profile: Profile | undefined = config.profiles?.[name];
+  if (!profile) {
+    const available = Object.keys(config.profiles ?? {});
+    throw new Error(
+      `Unknown profile "${name}"${available.length ? ` (available: ${available.join(', ')})` : ''}`
+    );
+  }
+
+  const provider = profile.provider ?? config.provider;
+  const routed = routeBaseURL(config, provider, profile.baseURL);
+  const result = ConfigSchema.safeParse({
+    ...config,
+    profile: name,
+    provider,
+    ...routed,
+    openai: { ...routed.openai, model: profile.model },
+    temperature: profile.temperature ?? config.temperature,
+    maxTokens: profile.maxTokens ?? config.maxTokens,
+    retry: { ...config.retry, ...profile.retry },
+    reasoning: { ...config.reasoning, ...profile.reasoning },
+  });
+  if (!result.success) {
+    throw new Error(`Invalid profile "${name}": ${formatIssue(result.error)}`);
+  }
+
+  derivedConfigs.set(result.data, { base: config });
+  return result.data;
+}
+
+export function getActiveProfile(
+  config: Config
+): (Profile & { name: string }) | undefined {
+  const profile = config.profile && config.profiles?.[config.profile];
+  return profile ? { name: config.profile!, ...profile } : undefined;
+}
+
+/**
+ * Switches a running config to another profile. Model flags given on the
+ * command line are replaced by the profile; the rest (tools, MCP) still apply.
+ */
+export function switchProfile(config: Config, name: string): Config {
+  const overrides = getConfigOverrides(config);
+  const profiled = applyProfile(getBaseConfig(config), name);
+  return overrides
+    ? applyConfigOverrides(profiled, { tools: overrides.tools, mcp: overrides.mcp })
+    : profiled;
+}
+
+/**
+ * Layers one-off overrides (CLI flags) on top of a loaded config and
+ * validates the result with the same schema as the config file
+ */
+export function applyConfigOverrides(
+  config: Config,
+  overrides: ConfigOverrides
+): Config {
+  const active = Object.fromEntries(
+    Object.entries(overrides).filter(
+      ([key, value]) => value !== undefined && !(key === 'mcp' && value)
+    )
+  ) as ConfigOverrides;
+  if (Object.keys(active).length === 0) {
+    return config;
+  }
+
+  // A profile flag replaces the startup profile before the other flags apply
+  const base = active.profile
+    ? applyProfile(getBaseConfig(config), active.profile)
+    : config;
+  if (active.tools) {
+    assertKnownTools(base, active.tools);
+  }
+  const routed = routeBaseURL(base, base.provider, active.baseURL);
+  const result = ConfigSchema.safeParse({
+    ...base,
+    ...routed,
+    openai: {
+      ...routed.openai,
+      model: active.model ?? base.openai.model,
+    },
+    temperature: active.temperature ?? base.temperature,
+    maxTokens: active.maxTokens ?? base.maxTokens,
+    tools: active.tools ?? base.tools,
+    mcpServers: active.mcp === false ? {} : base.mcpServers,
+  });
+  if (!result.success) {
+    throw new Error(`Invalid override for ${formatIssue(result.error)}`);
+  }
+
+  const overridden = result.data;
+  derivedConfigs.set(overridden, { base, overrides: active });
+  return overridden;
+}
+
+export function getConfigOverrides(config: Config): ConfigOverrides | undefined {
+  return derivedConfigs.get(config)?.overrides;
+}
+
+// The config as loaded from disk, before any profile or overrides
+export function getBaseConfig(config: Config): Config {
+  let base = config;
+  while (derivedConfigs.has(base)) {
+    base = derivedConfigs.get(base)!.base;
+  }
+  return base;
+}
+
+export function describeConfigOverrides(overrides: ConfigOverrides): string {
+  const parts: string[] = [];
+  if (overrides.model) parts.push(`model=${overrides.model}`);
+  if (overrides.temperature !== undefined) parts.push(`temp=${overrides.temperature}`);
+  if (overrides.maxTokens !== undefined) parts.push(`max-tokens=${overrides.maxTokens}`);
+  if (overrides.baseURL) parts.push(`base-url=${overrides.baseURL}`);
+  if (overrides.tools) parts.push(`tools=${overrides.tools.join(',')}`);
+  if (overrides.mcp === false) parts.push('no-mcp');
+  return parts.join(' ');
+}
+
 export function getConfigPath(): string[] {
   return [join(process.cwd(), CONFIG_NAME), join(homedir(), CONFIG_NAME)];
 }
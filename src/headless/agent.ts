@@ -0,0 +1,168 @@
+import { OpenAIClient, type ChatResponse } from '../openai.js';
+import { AgentMode } from '../modes/agent.js';
+import { builtInTools } from '../tools/index.js';
+import { AgentDoneTool, getCurrentPlan } from '../tools/internalPlan.js';
+import { formatToolCallDisplay } from '../utils/toolInfra.js';
+import {
+  getImageParts,
+  getTextContent,
+  type MessageContent,
+} from '../utils/messageContent.js';
+import type { Config } from '../schemas/config.js';
+import type { TokenUsage } from '../providers/index.js';
+import { sumUsage } from '../store/slices/usageSlice.js';
+
+export type AgentFinalStatus = 'success' | 'partial_success' | 'unable_to_complete';
+
+// Exit codes pipelines can branch on; 1 is reserved for errors
+export const AGENT_EXIT_CODES: Record<AgentFinalStatus | 'error', number> = {
+  success: 0,
+  error: 1,
+  partial_success: 2,
+  unable_to_complete: 3,
+};
+
+export type AgentEvent =
+  | { type: 'start'; task: string; images?: string[]; model: string }
+  | { type: 'tool_call'; id: string; name: string; args: unknown; display: string }
+  | { type: 'tool_result'; id: string; name: string; result: string; error?: string }
+  | { type: 'plan'; plan: ReturnType<typeof getCurrentPlan> }
+  | ({ type: 'usage' } & TokenUsage)
+  | { type: 'retry'; attempt: number; maxRetries: number; delayMs: number; error: string }
+  | {
+      type: 'agent_done';
+      final_status: AgentFinalStatus;
+      summary: string;
+      next_steps: string | null;
+    }
+  | {
+      type: 'result';
+      final_status: AgentFinalStatus;
+      content: string;
+      usage: TokenUsage; // All calls of the run, with their cost when priced
+      exit_code: number;
+    }
+  | { type: 'error'; message: string; exit_code: number };
+
+const PLAN_TOOLS = ['agent_plan_create', 'agent_plan_update'];
+
+/**
+ * The answer text of a chat or agent response; agent runs with tools return
+ * it as the last assistant message instead of `content`
+ */
+export function getFinalContent(response: ChatResponse): string {
+  return (
+    response.content ||
+    [...(response.messagesToAdd ?? [])]
+      .reverse()
+      .map((msg) => (msg.role === 'assistant' ? getTextContent(msg.content) : ''))
+      .find((text) => text.trim()) ||
+    ''
+  );
+}
+
+/**
+ * Runs an agent task without the Ink UI, writing one JSON event per line to
+ * stdout
+ * @returns the process exit code derived from agent_done's final_status
+ */
+export async function runAgent(
+  config: Config,
+  task: MessageContent,
+  emit: (event: AgentEvent) => void = (event) =>
+    process.stdout.write(JSON.stringify({ ...event, timestamp: Date.now() }) + '\n')
+): Promise<number> {
+  const client = await OpenAIClient.create(config, builtInTools);
+  const toolNames = new Map<string, string>();
+  const toolArgs = new Map<string, unknown>();
+  const calls: TokenUsage[] = [];
+  // Held in an object because it is only assigned inside callbacks
+  const outcome: { done: Extract<AgentEvent, { type: 'agent_done' }> | null } = {
+    done: null,
+  };
+
+  const images = getImageParts(task).map((image) => image.name ?? 'image');
+  emit({
+    type: 'start',
+    task: getTextContent(task),
+    ...(images.length > 0 && { images }),
+    model: config.openai.model,
+  });
+
+  try {
+    const response = await AgentMode.execute(client, [], task, {
+      onToolCall: (toolCallId, toolName, args, tool) => {
+        toolNames.set(toolCallId, toolName);
+        toolArgs.set(toolCallId, args);
+        emit({
+          type: 'tool_call',
+          id: toolCallId,
+          name: toolName,
+          args,
+          display: formatToolCallDisplay(toolName, args, tool),
+        });
+      },
+      onToolCallComplete: (toolCallId, result, error) => {
+        const name = toolNames.get(toolCallId) ?? 'unknown';
+        emit({
+          type: 'tool_result',
+          id: toolCallId,
+          name,
+          result,
+          ...(error && { error }),
+        });
+
+        if (name === 'agent_done') {
+          // The run ends with agent_done even when the tool rejected its
+          // arguments; a status that isn't one of ours counts as a failure
+          const args = AgentDoneTool.schema.safeParse(toolArgs.get(toolCallId));
+          outcome.done = args.success
+            ? { type: 'agent_done', ...args.data }
+            : {
+                type: 'agent_done',
+                final_status: 'unable_to_complete',
+                summary: '',
+                next_steps: null,
+              };
+          emit(outcome.done);
+        } else if (!error && PLAN_TOOLS.includes(name)) {
+          emit({ type: 'plan', plan: getCurrentPlan() });
+        }
+      },
+      onUsage: (usage) => {
+        calls.push(usage);
+        emit({ type: 'usage', ...usage });
+      },
+      onRetry: (info) => {
+        emit({ type: 'retry', ...info });
+      },
+    });
+
+    const content = getFinalContent(response) || outcome.done?.summary || '';
+
+    // A direct answer without tools is a completed task; a tool run that
+    // never called agent_done (e.g. hit the iteration limit) is partial
+    const finalStatus: AgentFinalStatus =
+      outcome.done?.final_status ??
+      (response.messagesToAdd ? 'partial_success' : 'success');
+    const exitCode = AGENT_EXIT_CODES[finalStatus];
+
+    emit({
+      type: 'result',
+      final_status: finalStatus,
+      content,
+      usage: sumUsage(calls),
+      exit_code: exitCode,
+    });
+    return exitCode;
+  } catch (error) {
+    emit({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      exit_code: AGENT_EXIT_CODES.error,
+    });
+    return AGENT_EXIT_CODES.error;
+  } finally {
+    await client.disconnect().catch(() => {});
+  }
+}
@@ -0,0 +1,106 @@
+import { OpenAIClient } from '../openai.js';
+import { ChatMode } from '../modes/chat.js';
+import { AgentMode } from '../modes/agent.js';
+import { builtInTools } from '../tools/index.js';
+import { formatToolCallDisplay } from '../utils/toolInfra.js';
+import type { Config } from '../schemas/config.js';
+import type { MessageContent } from '../utils/messageContent.js';
+
+/**
+ * Reads everything piped into the process; undefined when stdin is a terminal
+ */
+export async function readStdin(): Promise<string | undefined> {
+  if (process.stdin.isTTY) {
+    return undefined;
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  const content = Buffer.concat(chunks).toString('utf8');
+  return content.trim() ? content : undefined;
+}
+
+// Piped input is attached after the prompt as clearly delimited context
+export function buildPrompt(prompt: string, stdin?: string): string {
+  if (!stdin) {
+    return prompt;
+  }
+  if (!prompt) {
+    return stdin;
+  }
+  return `${prompt}\n\nContext (from stdin):\n<stdin>\n${stdin.trimEnd()}\n</stdin>`;
+}
+
+/**
+ * Runs a single turn without the Ink UI. The answer is streamed to
+ * stdout; tool activity and errors go to stderr so output can be piped.
+ * @returns the process exit code
+ */
+export async function runAsk(
+  config: Config,
+  prompt: MessageContent,
+  mode: 'CHAT' | 'AGENT' = 'CHAT'
+): Promise<number> {
+  const client = await OpenAIClient.create(config, builtInTools);
+  let lastWrite = '';
+  const write = (text: string) => {
+    if (text) {
+      process.stdout.write(text);
+      lastWrite = text;
+    }
+  };
+
+  // Parallel calls can finish out of order, so errors name their call
+  const toolCallDisplays = new Map<string, string>();
+
+  try {
+    const run = mode === 'AGENT' ? AgentMode.execute : ChatMode.execute;
+    await run(client, [], prompt, {
+      onToken: write,
+      onToolCall: (toolCallId, toolName, args, tool) => {
+        const display = formatToolCallDisplay(toolName, args, tool);
+        toolCallDisplays.set(toolCallId, display);
+        process.stderr.write(`${display}\n`);
+      },
+      onToolCallComplete: (toolCallId, result, error) => {
+        if (error) {
+          process.stderr.write(
+            `  ✗ ${toolCallDisplays.get(toolCallId) ?? 'Tool call'}: ${error}\n`
+          );
+        }
+      },
+      onRetry: (info) => {
+        // Streamed text can't be taken back; start the retried answer on a new line
+        if (lastWrite && !lastWrite.endsWith('\n')) {
+          write('\n');
+        }
+        process.stderr.write(
+          `↻ ${info.error} - retrying ${info.attempt}/${info.maxRetries} in ${Math.ceil(info.delayMs / 1000)}s\n`
+        );
+      },
+      onNewMessage: () => {
+        // Keep text from before and after tool calls on separate lines
+        if (lastWrite && !lastWrite.endsWith('\n')) {
+          write('\n');
+        }
+      },
+    });
+
+    if (lastWrite && !lastWrite.endsWith('\n')) {
+      write('\n');
+    }
+    return 0;
+  } catch (error) {
+    if (lastWrite && !lastWrite.endsWith('\n')) {
+      process.stdout.write('\n');
+    }
+    process.stderr.write(
+      `Error: ${error instanceof Error ? error.message : 'Unknown error'}\n`
+    );
+    return 1;
+  } finally {
+    await client.disconnect().catch(() => {});
+  }
+}
@@ -0,0 +1,154 @@
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { OpenAIClient } from '../openai.js';
+import { ChatMode } from '../modes/chat.js';
+import { AgentMode } from '../modes/agent.js';
+import { builtInTools } from '../tools/index.js';
+import { runWithPlanScope } from '../tools/internalPlan.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { BatchEntrySchema, type BatchEntry } from '../schemas/batch.js';
+import type { Config } from '../schemas/config.js';
+import { getFinalContent } from './agent.js';
+
+export type BatchMode = 'chat' | 'agent';
+
+export interface BatchResult {
+  index: number;
+  id: string;
+  prompt: string;
+  mode: BatchMode;
+  model: string;
+  status: 'ok' | 'error';
+  content: string;
+  finalStatus?: string; // agent_done's final_status for agent entries
+  toolCalls: Array<{ name: string; args: any; result: string }>;
+  usage: { promptTokens: number; completionTokens: number; totalTokens: number };
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * Reads batch entries from a JSONL, JSON or YAML file. A JSON/YAML file holds
+ * either a list of entries or `{ prompts: [...] }`.
+ */
+export function loadBatchFile(path: string): BatchEntry[] {
+  const content = readFileSync(path, 'utf8');
+  const extension = extname(path).toLowerCase();
+
+  let rawEntries: { value: unknown; label: string }[];
+  if (extension === '.jsonl' || extension === '.ndjson') {
+    rawEntries = content
+      .split('\n')
+      .map((line, index) => ({ line, label: `line ${index + 1}` }))
+      .filter(({ line }) => line.trim())
+      .map(({ line, label }) => {
+        try {
+          return { value: JSON.parse(line), label };
+        } catch {
+          throw new Error(`Invalid JSON on ${label}`);
+        }
+      });
+  } else {
+    const parsed =
+      extension === '.yaml' || extension === '.yml'
+        ? parseYaml(content)
+        : JSON.parse(content);
+    const list = Array.isArray(parsed) ? parsed : parsed?.prompts;
+    if (!Array.isArray(list)) {
+      throw new Error('Expected a list of entries or an object with a "prompts" list');
+    }
+    rawEntries = list.map((value, index) => ({ value, label: `entry ${index + 1}` }));
+  }
+
+  return rawEntries.map(({ value, label }) => {
+    const result = BatchEntrySchema.safeParse(value);
+    if (!result.success) {
+      throw new Error(`Invalid ${label}: ${result.error.issues[0].message}`);
+    }
+    return result.data;
+  });
+}
+
+/**
+ * Runs every entry with at most `concurrency` in flight. A failing entry is
+ * reported as an error result and never stops the rest of the batch.
+ */
+export async function runBatch(
+  config: Config,
+  entries: BatchEntry[],
+  options: {
+    concurrency: number;
+    defaultMode: BatchMode;
+    onResult?: (result: BatchResult) => void;
+  }
+): Promise<BatchResult[]> {
+  // One client so MCP servers are started once; entries get their own config
+  const baseClient = await OpenAIClient.create(config, builtInTools);
+
+  try {
+    return await mapWithConcurrency(entries, options.concurrency, async (entry, index) => {
+      const mode = entry.mode ?? options.defaultMode;
+      const model = entry.model ?? config.openai.model;
+      const client = baseClient.withConfig({
+        ...config,
+        openai: { ...config.openai, model },
+        tools: entry.tools ?? config.tools,
+      });
+
+      const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+      const startedAt = Date.now();
+      const base = {
+        index,
+        id: entry.id ?? String(index + 1),
+        prompt: entry.prompt,
+        mode,
+        model,
+      };
+
+      let result: BatchResult;
+      try {
+        const callbacks = {
+          // Usage is reported per API call; sum it for the whole entry
+          onUsage: (callUsage: typeof usage) => {
+            usage.promptTokens += callUsage.promptTokens;
+            usage.completionTokens += callUsage.completionTokens;
+            usage.totalTokens += callUsage.totalTokens;
+          },
+        };
+        const response = await runWithPlanScope(() =>
+          mode === 'agent'
+            ? AgentMode.execute(client, [], entry.prompt, callbacks)
+            : ChatMode.execute(client, [], entry.prompt, callbacks)
+        );
+
+        const toolCalls = response.toolCalls ?? [];
+        result = {
+          ...base,
+          status: 'ok',
+          content: getFinalContent(response),
+          finalStatus: toolCalls.find((toolCall) => toolCall.name === 'agent_done')
+            ?.args?.final_status,
+          toolCalls,
+          usage,
+          durationMs: Date.now() - startedAt,
+        };
+      } catch (error) {
+        result = {
+          ...base,
+          status: 'error',
+          content: '',
+          toolCalls: [],
+          usage,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          durationMs: Date.now() - startedAt,
+        };
+      }
+
+      options.onResult?.(result);
+      return result;
+    });
+  } finally {
+    await baseClient.disconnect().catch(() => {});
+  }
+}
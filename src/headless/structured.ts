@@ -0,0 +1,153 @@
+import { readFileSync } from 'fs';
+import { basename, extname, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { Ajv } from 'ajv';
+import { Ajv2020 } from 'ajv/dist/2020.js';
+import type { ZodType } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { OpenAIClient, type Message } from '../openai.js';
+import type { Config } from '../schemas/config.js';
+import type { MessageContent } from '../utils/messageContent.js';
+
+export interface OutputSchema {
+  // Sent to the API as the response format's name
+  name: string;
+  jsonSchema: Record<string, unknown>;
+  // Reasons the value doesn't match, empty when it does
+  validate: (value: unknown) => string[];
+}
+
+// Corrections asked for after an answer fails validation
+const MAX_REPAIRS = 2;
+
+// Response format names are limited to [a-zA-Z0-9_-]
+const toSchemaName = (path: string): string =>
+  basename(path, extname(path))
+    .replace(/[^a-zA-Z0-9_-]/g, '_')
+    .slice(0, 64) || 'output';
+
+const isZodSchema = (value: unknown): value is ZodType =>
+  typeof (value as ZodType | undefined)?.safeParse === 'function';
+
+/**
+ * Loads a JSON Schema (.json) or a module whose default or `schema` export is
+ * a Zod schema. Zod schemas validate with Zod itself, so refinements apply.
+ */
+export async function loadOutputSchema(file: string): Promise<OutputSchema> {
+  const path = resolve(file);
+  const name = toSchemaName(path);
+
+  if (extname(path) === '.json') {
+    const jsonSchema = JSON.parse(readFileSync(path, 'utf8'));
+    const ajv = String(jsonSchema.$schema ?? '').includes('2020-12')
+      ? new Ajv2020({ allErrors: true, strict: false })
+      : new Ajv({ allErrors: true, strict: false });
+    const validate = ajv.compile(jsonSchema);
+    return {
+      name,
+      jsonSchema,
+      validate: (value) =>
+        validate(value)
+          ? []
+          : (validate.errors ?? []).map(
+              (error) => `${error.instancePath || '/'} ${error.message}`
+            ),
+    };
+  }
+
+  const module = await import(pathToFileURL(path).href);
+  const schema = module.default ?? module.schema;
+  if (!isZodSchema(schema)) {
+    throw new Error(
+      `${file} must export a Zod schema as its default export or as "schema"`
+    );
+  }
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, {
+    $refStrategy: 'none',
+  }) as Record<string, unknown>;
+  return {
+    name,
+    jsonSchema,
+    validate: (value) => {
+      const result = schema.safeParse(value);
+      return result.success
+        ? []
+        : result.error.issues.map(
+            (issue) => `/${issue.path.join('/')} ${issue.message}`
+          );
+    },
+  };
+}
+
+// Models without a response format sometimes wrap JSON in a code fence
+const parseJSON = (content: string): { value: unknown } | { error: string } => {
+  const text = content
+    .trim()
+    .replace(/^```(?:json)?\s*\n?([\s\S]*?)\n?```$/, '$1')
+    .trim();
+  try {
+    return { value: JSON.parse(text) };
+  } catch (error) {
+    return {
+      error: `Not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`,
+    };
+  }
+};
+
+/**
+ * Answers without tools and prints pretty JSON that matches `schema`.
+ * Invalid answers are sent back with the validation errors for a correction.
+ * @returns the exit code: 0 valid JSON printed, 2 validation failed, 1 error
+ */
+export async function runStructuredAsk(
+  config: Config,
+  prompt: MessageContent,
+  schema: OutputSchema
+): Promise<number> {
+  // No tools, so no MCP servers either
+  const client = new OpenAIClient({ ...config, mcpServers: {} }, []);
+  const messages: Message[] = [{ role: 'user', content: prompt }];
+  let errors: string[] = [];
+
+  try {
+    for (let attempt = 0; attempt <= MAX_REPAIRS; attempt++) {
+      const { content } = await client.completeJSON(messages, {
+        name: schema.name,
+        schema: schema.jsonSchema,
+      });
+
+      const parsed = parseJSON(content);
+      errors =
+        'error' in parsed ? [parsed.error] : schema.validate(parsed.value);
+      if ('value' in parsed && errors.length === 0) {
+        process.stdout.write(`${JSON.stringify(parsed.value, null, 2)}\n`);
+        return 0;
+      }
+
+      if (attempt < MAX_REPAIRS) {
+        process.stderr.write(
+          `↻ Output does not match the schema - asking for a correction (${attempt + 1}/${MAX_REPAIRS})\n`
+        );
+        messages.push(
+          { role: 'assistant', content },
+          {
+            role: 'user',
+            content: `That reply does not match the schema:\n${errors.map((error) => `- ${error}`).join('\n')}\n\nReply with the corrected JSON only.`,
+          }
+        );
+      }
+    }
+
+    process.stderr.write(
+      `Error: Output does not match the schema:\n${errors.map((error) => `  - ${error}`).join('\n')}\n`
+    );
+    return 2;
+  } catch (error) {
+    process.stderr.write(
+      `Error: ${error instanceof Error ? error.message : 'Unknown error'}\n`
+    );
+    return 1;
+  } finally {
+    await client.disconnect().catch(() => {});
+  }
+}
@@ -1,10 +1,12 @@
 import { useMemo } from 'react';
+import type { ModelInfo } from '../models.js';
 
 interface ContextUsageInfo {
   used: number;
   total: number;
   usedPercentage: number;
   remainingPercentage: number;
+  windowKnown: boolean; // false when the window is a default guess
 }
 
 interface TokenUsage {
@@ -13,37 +15,32 @@ interface TokenUsage {
   totalTokens: number;
 }
 
-// Get model context window size
-const getContextWindowSize = (model: string): number => {
-  const contextWindows: Record<string, number> = {
-    'gpt-4o': 128000,
-    'gpt-4o-mini': 128000,
-    'gpt-4-turbo': 128000,
-    'gpt-4': 8192,
-    'gpt-3.5-turbo': 16385,
-    'o1-preview': 128000,
-    'o1-mini': 128000,
-    'gpt-4.1': 1000000,         // 1M tokens
-    'gpt-4.1-mini': 1000000,   // 1M tokens
-    'gpt-4.1-nano': 1000000,   // 1M tokens
+/**
+ * @param modelInfo - Registry entry of the active model
+ */
+export const getContextUsage = (
+  currentUsage: TokenUsage | null,
+  modelInfo: ModelInfo
+): ContextUsageInfo | null => {
+  if (!currentUsage) return null;
+  const contextWindow = modelInfo.contextWindow;
+  const usedPercentage = Math.round((currentUsage.totalTokens / contextWindow) * 100);
+  const remainingPercentage = Math.max(0, 100 - usedPercentage);
+  return {
+    used: currentUsage.totalTokens,
+    total: contextWindow,
+    usedPercentage,
+    remainingPercentage,
+    windowKnown: modelInfo.known,
   };
-  return contextWindows[model] || 8192; // Default fallback
 };
 
 export const useContextUsage = (
   currentUsage: TokenUsage | null,
-  model: string
+  modelInfo: ModelInfo
 ): ContextUsageInfo | null => {
-  return useMemo(() => {
-    if (!currentUsage) return null;
-    const contextWindow = getContextWindowSize(model);
-    const usedPercentage = Math.round((currentUsage.totalTokens / contextWindow) * 100);
-    const remainingPercentage = Math.max(0, 100 - usedPercentage);
-    return {
-      used: currentUsage.totalTokens,
-      total: contextWindow,
-      usedPercentage,
-      remainingPercentage,
-    };
-  }, [currentUsage, model]);
+  return useMemo(
+    () => getContextUsage(currentUsage, modelInfo),
+    [currentUsage, modelInfo]
+  );
 };
\ No newline at end of file
@@ -4,12 +4,42 @@ import { Command } from 'commander';
 import { render } from 'ink';
 import React from 'react';
 import { Provider } from 'react-redux';
-import { loadConfig, createSampleConfig, getConfigPath } from './config.js';
+import {
+  loadConfig,
+  createSampleConfig,
+  getConfigPath,
+  applyConfigOverrides,
+} from './config.js';
 import { ChatApp } from './chat.js';
 import { store } from './store/index.js';
+import { startSession } from './store/slices/sessionSlice.js';
+import { setMode } from './store/slices/chatSlice.js';
+import { SessionStore } from './sessions/sessionStore.js';
+import { sessionRecorder } from './sessions/recorder.js';
+import { restoreSession } from './sessions/restore.js';
+import { importFile } from './sessions/import.js';
+import { getProjectRoot, getSessionDirectory } from './sessions/project.js';
+import { buildPrompt, readStdin, runAsk } from './headless/ask.js';
+import { runAgent } from './headless/agent.js';
+import {
+  buildMessageContent,
+  type MessageContent,
+} from './utils/messageContent.js';
+import {
+  loadOutputSchema,
+  runStructuredAsk,
+  type OutputSchema,
+} from './headless/structured.js';
+import { loadBatchFile, runBatch, type BatchMode } from './headless/batch.js';
+import { SessionSearchIndex } from './sessions/search.js';
+import { historyCommand } from './commands/history.js';
+import { resumeCommand } from './commands/resume.js';
+import { setActiveCommandJSX } from './store/slices/uiSlice.js';
+import { commandManager } from './utils/commandManager.js';
+import type { Config } from './schemas/config.js';
 import { startMCPServer } from './mcpServer.js';
 import chalk from 'chalk';
-import { writeFileSync } from 'fs';
+import { appendFileSync, writeFileSync } from 'fs';
 import { join } from 'path';
 
 const program = new Command();
@@ -64,36 +94,458 @@ process.on('unhandledRejection', (reason) => {
   cleanup();
 });
 
+// Render the Ink chat UI for the current store state
+const launchChat = (config: Config) => {
+  // Create the app with cleanup callback, wrapped in Redux Provider
+  const chatApp = React.createElement(ChatApp, { 
+    config,
+    onClientCreate: (disconnectFn: () => Promise<void>) => {
+      cleanupFunctions.push(disconnectFn);
+    }
+  });
+  
+  const app = React.createElement(Provider, { store, children: chatApp });
+  
+  // Store the Ink instance for cleanup
+  inkInstance = render(app);
+};
+
+// Points session recording and lookups at the configured session store
+const configureSessionStore = (config?: Config) => {
+  sessionRecorder.setStore(new SessionStore(getSessionDirectory(config)));
+};
+
+// For commands that work without a valid config (no API keys needed)
+const loadOptionalConfig = async (): Promise<Config | undefined> => {
+  try {
+    return await loadConfig();
+  } catch {
+    return undefined;
+  }
+};
+
+// Flags of chat, ask and agent that override the config for a single run
+const addConfigOverrideOptions = (command: Command): Command =>
+  command
+    .option('--profile <name>', 'Model profile from the config to use')
+    .option('--model <name>', 'Model to use for this run')
+    .option('--temperature <value>', 'Sampling temperature (0-2)', parseFloat)
+    .option('--max-tokens <count>', 'Maximum tokens per response', (value) =>
+      parseInt(value, 10)
+    )
+    .option('--base-url <url>', 'OpenAI-compatible API base URL')
+    .option('--tools <names>', 'Comma-separated allowlist of tools', (value) =>
+      value.split(',').map((name) => name.trim()).filter(Boolean)
+    )
+    .option('--no-mcp', 'Do not start the configured MCP servers');
+
+const loadRunConfig = async (
+  options: Record<string, any>,
+  loadOptions?: { quiet?: boolean }
+): Promise<Config> => {
+  const config = await loadConfig(loadOptions);
+  try {
+    return applyConfigOverrides(config, {
+      profile: options.profile,
+      model: options.model,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+      baseURL: options.baseUrl,
+      tools: options.tools,
+      mcp: options.mcp,
+    });
+  } catch (error) {
+    // A bad flag, not a bad config file
+    console.error(
+      chalk.red('Error:'),
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+    process.exit(1);
+  }
+};
+
+const parseModeOption = (mode?: string): 'CHAT' | 'AGENT' | undefined => {
+  if (mode === undefined) {
+    return undefined;
+  }
+  if (mode !== 'chat' && mode !== 'agent') {
+    console.error(chalk.red('Error:'), '--mode must be chat or agent');
+    process.exit(1);
+  }
+  return mode === 'chat' ? 'CHAT' : 'AGENT';
+};
+
+// Repeatable --image flag
+const collectImage = (path: string, previous: string[] = []): string[] => [
+  ...previous,
+  path,
+];
+
+// Attaches --image files to a headless prompt, exiting when one can't be read
+const withImages = (prompt: string, imagePaths: string[] = []): MessageContent => {
+  try {
+    return buildMessageContent(prompt, imagePaths);
+  } catch (error) {
+    console.error(chalk.red('Error:'), error instanceof Error ? error.message : 'Unknown error');
+    process.exit(1);
+  }
+};
+
+const reportConfigError = (error: unknown) => {
+  console.error(
+    chalk.red('Error:'),
+    error instanceof Error ? error.message : 'Unknown error'
+  );
+  console.log(chalk.yellow('\nTo create a sample config file, run:'));
+  console.log(chalk.cyan('jecko config --init'));
+  process.exit(1);
+};
+
+addConfigOverrideOptions(
+  program
+    .command('chat')
+    .description('Start interactive chat session')
+    .option('-c, --continue', 'Continue the most recent session for this project')
+    .option('--mode <mode>', 'Start in chat or agent mode')
+)
+  .action(async (options) => {
+    const mode = parseModeOption(options.mode);
+    try {
+      const config = await loadRunConfig(options);
+      configureSessionStore(config);
+
+      // Every chat is autosaved as a new session under ~/.jecko/sessions
+      store.dispatch(startSession({
+        id: SessionStore.createSessionId(),
+        model: config.openai.model,
+      }));
+
+      if (options.continue) {
+        const sessionStore = sessionRecorder.getStore();
+        const latest = sessionStore.findLatest(getProjectRoot());
+        if (latest) {
+          restoreSession(store.dispatch, sessionStore.load(latest.id));
+        } else {
+          console.log(chalk.yellow('No previous session for this project, starting a new one.'));
+        }
+      }
+
+      // The flag wins over the mode a continued session was left in
+      if (mode) {
+        store.dispatch(setMode(mode));
+      }
+
+      launchChat(config);
+    } catch (error) {
+      reportConfigError(error);
+    }
+  });
+
 program
-  .command('chat')
-  .description('Start interactive chat session')
-  .action(async () => {
+  .command('resume')
+  .description('Resume a saved session (shows a picker when no id is given)')
+  .argument('[id]', 'Session id or unique id prefix')
+  .option('-a, --all', 'Pick from sessions of every project, not just this one')
+  .action(async (id: string | undefined, options) => {
+    let config: Config;
+    try {
+      config = await loadConfig();
+    } catch (error) {
+      reportConfigError(error);
+      return;
+    }
+    configureSessionStore(config);
+
     try {
-      const config = await loadConfig();
-      
-      // Create the app with cleanup callback, wrapped in Redux Provider
-      const chatApp = React.createElement(ChatApp, { 
-        config,
-        onClientCreate: (disconnectFn: () => Promise<void>) => {
-          cleanupFunctions.push(disconnectFn);
+      store.dispatch(startSession({
+        id: SessionStore.createSessionId(),
+        model: config.openai.model,
+      }));
+
+      const sessionStore = sessionRecorder.getStore();
+      if (id) {
+        restoreSession(store.dispatch, sessionStore.load(sessionStore.resolveId(id)));
+      } else {
+        // Open the chat with the /resume picker already showing
+        const picker = await resumeCommand.execute(
+          config,
+          undefined,
+          options.all ? '--all' : ''
+        );
+        commandManager.setCommand(picker);
+        store.dispatch(setActiveCommandJSX(true));
+      }
+
+      launchChat(config);
+    } catch (error) {
+      console.error(
+        chalk.red('Error resuming session:'),
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+      process.exit(1);
+    }
+  });
+
+addConfigOverrideOptions(
+  program
+    .command('ask')
+    .description('Ask a single question without the interactive UI and stream the answer to stdout')
+    .argument('[prompt...]', 'The question; piped stdin is attached as context')
+    .option('--mode <mode>', 'Answer in chat (default) or agent mode')
+    .option('--image <path>', 'Attach an image (repeatable)', collectImage)
+    .option(
+      '--schema <file>',
+      'Print JSON matching a JSON Schema (.json) or a Zod schema module'
+    )
+    .addHelpText(
+      'after',
+      '\nExit codes with --schema: 0 valid JSON printed, 2 output failed validation, 1 error'
+    )
+)
+  .action(async (words: string[], options) => {
+    const mode = parseModeOption(options.mode) ?? 'CHAT';
+    if (options.schema && mode === 'AGENT') {
+      console.error(chalk.red('Error:'), '--schema cannot be used with --mode agent');
+      process.exit(1);
+    }
+    const stdin = await readStdin();
+    const prompt = buildPrompt(words.join(' ').trim(), stdin);
+    if (!prompt && !options.image) {
+      console.error(chalk.red('Error:'), 'Provide a prompt or pipe input into jecko ask');
+      process.exit(1);
+    }
+    const content = withImages(prompt, options.image);
+
+    let schema: OutputSchema | undefined;
+    if (options.schema) {
+      try {
+        schema = await loadOutputSchema(options.schema);
+      } catch (error) {
+        console.error(
+          chalk.red('Error loading schema:'),
+          error instanceof Error ? error.message : 'Unknown error'
+        );
+        process.exit(1);
+      }
+    }
+
+    let config: Config;
+    try {
+      config = await loadRunConfig(options, { quiet: true });
+    } catch (error) {
+      reportConfigError(error);
+      return;
+    }
+
+    process.exit(
+      schema
+        ? await runStructuredAsk(config, content, schema)
+        : await runAsk(config, content, mode)
+    );
+  });
+
+addConfigOverrideOptions(
+  program
+    .command('agent')
+    .description('Run an agent task headlessly, printing one JSON event per line')
+    .argument('[task...]', 'The task; piped stdin is attached as context')
+    .option('--image <path>', 'Attach an image (repeatable)', collectImage)
+    .addHelpText(
+      'after',
+      '\nExit codes: 0 success, 2 partial_success, 3 unable_to_complete, 1 error'
+    )
+)
+  .action(async (words: string[], options) => {
+    const stdin = await readStdin();
+    const task = buildPrompt(words.join(' ').trim(), stdin);
+    if (!task && !options.image) {
+      console.error(chalk.red('Error:'), 'Provide a task or pipe input into jecko agent');
+      process.exit(1);
+    }
+    const content = withImages(task, options.image);
+
+    let config: Config;
+    try {
+      config = await loadRunConfig(options, { quiet: true });
+    } catch (error) {
+      reportConfigError(error);
+      return;
+    }
+
+    process.exit(await runAgent(config, content));
+  });
+
+program
+  .command('batch')
+  .description('Run every prompt in a JSONL, JSON or YAML file and write JSONL results')
+  .argument('<file>', 'Entries: a prompt string or { id, prompt, mode, model, tools }')
+  .option('-o, --out <file>', 'Write results to this file instead of stdout')
+  .option('-j, --concurrency <count>', 'Entries to run at the same time', '3')
+  .option('--mode <mode>', 'Mode for entries that do not set one (chat or agent)', 'chat')
+  .action(async (file: string, options) => {
+    if (options.mode !== 'chat' && options.mode !== 'agent') {
+      console.error(chalk.red('Error:'), '--mode must be chat or agent');
+      process.exit(1);
+    }
+
+    let entries;
+    try {
+      entries = loadBatchFile(file);
+    } catch (error) {
+      console.error(
+        chalk.red('Error reading batch file:'),
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+      process.exit(1);
+    }
+
+    let config: Config;
+    try {
+      config = await loadConfig({ quiet: true });
+    } catch (error) {
+      reportConfigError(error);
+      return;
+    }
+
+    if (options.out) {
+      writeFileSync(options.out, '');
+    }
+
+    let finished = 0;
+    const results = await runBatch(config, entries, {
+      concurrency: Math.max(1, parseInt(options.concurrency, 10) || 1),
+      defaultMode: options.mode as BatchMode,
+      onResult: (result) => {
+        // Results are written as they finish so a killed batch keeps its progress
+        const line = JSON.stringify(result) + '\n';
+        if (options.out) {
+          appendFileSync(options.out, line);
+        } else {
+          process.stdout.write(line);
         }
-      });
-      
-      const app = React.createElement(Provider, { store, children: chatApp });
-      
-      // Store the Ink instance for cleanup
-      inkInstance = render(app);
+
+        finished++;
+        console.error(
+          `[${finished}/${entries.length}] ${
+            result.status === 'ok' ? chalk.green('✓') : chalk.red('✗')
+          } ${result.id} ${chalk.gray(`(${(result.durationMs / 1000).toFixed(1)}s)`)}${
+            result.error ? ` ${chalk.red(result.error)}` : ''
+          }`
+        );
+      },
+    });
+
+    const failed = results.filter((result) => result.status === 'error').length;
+    if (failed > 0) {
+      console.error(chalk.yellow(`${failed} of ${results.length} entries failed`));
+    }
+    process.exit(failed > 0 ? 2 : 0);
+  });
+
+program
+  .command('import')
+  .description('Import ChatGPT, OpenAI chat or Jecko messages.json history as saved sessions')
+  .argument('<file>', 'conversations.json, a chat-completions message array or messages.json')
+  .action(async (file: string) => {
+    configureSessionStore(await loadOptionalConfig());
+    try {
+      const { format, results, skipped } = importFile(
+        file,
+        sessionRecorder.getStore()
+      );
+
+      console.log(chalk.green(`Imported ${results.length} session(s) from ${format} export:`));
+      for (const result of results) {
+        console.log(
+          `  ${chalk.cyan(result.id)}  ${result.title} ${chalk.gray(`(${result.messageCount} messages)`)}`
+        );
+        if (result.droppedMessages > 0) {
+          console.log(
+            chalk.yellow(`    Dropped ${result.droppedMessages} message(s) or tool call(s) that could not be replayed`)
+          );
+        }
+      }
+      if (skipped > 0) {
+        console.log(chalk.yellow(`Skipped ${skipped} empty conversation(s).`));
+      }
+      if (results.length > 0) {
+        console.log(chalk.gray(`\nContinue one with: jecko resume ${results[0].id}`));
+      }
     } catch (error) {
       console.error(
-        chalk.red('Error:'),
+        chalk.red('Error importing file:'),
         error instanceof Error ? error.message : 'Unknown error'
       );
-      console.log(chalk.yellow('\nTo create a sample config file, run:'));
-      console.log(chalk.cyan('jecko config --init'));
       process.exit(1);
     }
   });
 
+const history = program
+  .command('history')
+  .description('Work with saved session history');
+
+history
+  .command('search')
+  .description('Full-text search across saved sessions, including tool results')
+  .argument('<query...>', 'Search terms')
+  .option('-p, --print', 'Print ranked results instead of opening the picker')
+  .option('-n, --limit <count>', 'Maximum number of results', '20')
+  .action(async (terms: string[], options) => {
+    const query = terms.join(' ');
+    const optionalConfig = await loadOptionalConfig();
+    configureSessionStore(optionalConfig);
+
+    // Pipes and --print get plain output; a terminal gets the interactive picker
+    if (options.print || !process.stdout.isTTY) {
+      try {
+        const results = new SessionSearchIndex(sessionRecorder.getStore()).search(
+          query,
+          parseInt(options.limit, 10) || 20
+        );
+        if (results.length === 0) {
+          console.log(chalk.yellow(`No saved messages match "${query}".`));
+          return;
+        }
+
+        results.forEach((result, index) => {
+          console.log(
+            `${chalk.gray(`${index + 1}.`)} ${chalk.bold(result.title)} ${chalk.gray(
+              `• ${new Date(result.timestamp).toLocaleString()} • ${result.sessionId}`
+            )}`
+          );
+          console.log(`   ${chalk.cyan(result.role)}: ${result.snippet}`);
+        });
+        console.log(chalk.gray('\nOpen one with: jecko resume <session id>'));
+      } catch (error) {
+        console.error(
+          chalk.red('Error searching history:'),
+          error instanceof Error ? error.message : 'Unknown error'
+        );
+        process.exit(1);
+      }
+      return;
+    }
+
+    if (!optionalConfig) {
+      // Surface the validation error
+      await loadConfig().catch(reportConfigError);
+      return;
+    }
+    const config = optionalConfig;
+
+    store.dispatch(startSession({
+      id: SessionStore.createSessionId(),
+      model: config.openai.model,
+    }));
+
+    // Open the chat with the search results already showing
+    const picker = await historyCommand.execute(config, undefined, query);
+    commandManager.setCommand(picker);
+    store.dispatch(setActiveCommandJSX(true));
+
+    launchChat(config);
+  });
+
 program
   .command('config')
   .description('Manage configuration')
@@ -125,6 +577,9 @@ program
               ...config,
               openai: { ...config.openai, apiKey: '***' },
               serper: { ...config.serper, apiKey: '***' },
+              ...(config.anthropic && {
+                anthropic: { ...config.anthropic, apiKey: '***' },
+              }),
             },
             null,
             2
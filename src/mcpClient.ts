@@ -114,12 +114,16 @@ export class MCPClientManager {
         name: mcpTool.name,
         description: mcpTool.description,
         schema,
-        execute: async (params: any) => {
+        execute: async (params: any, config, signal) => {
           try {
-            const result = await mcpTool.client.callTool({
-              name: mcpTool.name,
-              arguments: params,
-            });
+            const result = await mcpTool.client.callTool(
+              {
+                name: mcpTool.name,
+                arguments: params,
+              },
+              undefined,
+              { signal }
+            );
             
             // Convert MCP response to string
             if (result.content && Array.isArray(result.content)) {
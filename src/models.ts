@@ -0,0 +1,268 @@
+import { getActiveProfile } from './config.js';
+import type { TokenUsage } from './providers/types.js';
+import type { Config } from './schemas/config.js';
+
+export interface ModelPricing {
+  // USD per million tokens
+  input: number;
+  output: number;
+}
+
+export interface ModelCapabilities {
+  tools: boolean;
+  vision: boolean;
+  // Reports token usage at the end of a stream; otherwise it's counted locally
+  streamingUsage: boolean;
+  // Takes reasoning_effort and max_completion_tokens instead of a temperature
+  reasoning: boolean;
+}
+
+export interface ModelInfo {
+  contextWindow: number;
+  // Unset when neither the registry nor the config gives the model's limit
+  maxOutputTokens?: number;
+  // Unset when neither the registry nor the config has prices for the model
+  pricing?: ModelPricing;
+  capabilities: ModelCapabilities;
+  // false when the numbers are defaults rather than facts about the model
+  known: boolean;
+}
+
+type RegistryEntry = Omit<ModelInfo, 'capabilities' | 'known'> & {
+  maxOutputTokens: number;
+  capabilities?: Partial<ModelCapabilities>;
+};
+
+const DEFAULT_CAPABILITIES: ModelCapabilities = {
+  tools: true,
+  vision: true,
+  streamingUsage: true,
+  reasoning: false,
+};
+
+// Models nobody described may be served by anything OpenAI-compatible, so
+// images and stream_options are only sent once the config turns them on
+const UNKNOWN_MODEL_CAPABILITIES: ModelCapabilities = {
+  ...DEFAULT_CAPABILITIES,
+  vision: false,
+  streamingUsage: false,
+};
+
+// For models nobody described; most current models have at least this much
+const DEFAULT_CONTEXT_WINDOW = 128000;
+
+// OpenAI's o-series and gpt-5 families, with or without a date suffix, for
+// reasoning models newer than the registry
+const REASONING_MODEL = /^(o\d+|gpt-5)([-.].*)?$/;
+
+const REASONING = { reasoning: true };
+const TEXT_ONLY = { vision: false };
+
+// Published list prices
+const BUILT_IN_MODELS: Record<string, RegistryEntry> = {
+  'gpt-4o': {
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    pricing: { input: 2.5, output: 10 },
+  },
+  'gpt-4o-mini': {
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    pricing: { input: 0.15, output: 0.6 },
+  },
+  'gpt-4-turbo': {
+    contextWindow: 128000,
+    maxOutputTokens: 4096,
+    pricing: { input: 10, output: 30 },
+  },
+  'gpt-4': {
+    contextWindow: 8192,
+    maxOutputTokens: 8192,
+    pricing: { input: 30, output: 60 },
+    capabilities: TEXT_ONLY,
+  },
+  'gpt-3.5-turbo': {
+    contextWindow: 16385,
+    maxOutputTokens: 4096,
+    pricing: { input: 0.5, output: 1.5 },
+    capabilities: TEXT_ONLY,
+  },
+  'gpt-4.1': {
+    contextWindow: 1047576,
+    maxOutputTokens: 32768,
+    pricing: { input: 2, output: 8 },
+  },
+  'gpt-4.1-mini': {
+    contextWindow: 1047576,
+    maxOutputTokens: 32768,
+    pricing: { input: 0.4, output: 1.6 },
+  },
+  'gpt-4.1-nano': {
+    contextWindow: 1047576,
+    maxOutputTokens: 32768,
+    pricing: { input: 0.1, output: 0.4 },
+  },
+  'o1-preview': {
+    contextWindow: 128000,
+    maxOutputTokens: 32768,
+    pricing: { input: 15, output: 60 },
+    capabilities: { ...REASONING, tools: false, vision: false },
+  },
+  'o1-mini': {
+    contextWindow: 128000,
+    maxOutputTokens: 65536,
+    pricing: { input: 1.1, output: 4.4 },
+    capabilities: { ...REASONING, tools: false, vision: false },
+  },
+  o1: {
+    contextWindow: 200000,
+    maxOutputTokens: 100000,
+    pricing: { input: 15, output: 60 },
+    capabilities: REASONING,
+  },
+  o3: {
+    contextWindow: 200000,
+    maxOutputTokens: 100000,
+    pricing: { input: 2, output: 8 },
+    capabilities: REASONING,
+  },
+  'o3-mini': {
+    contextWindow: 200000,
+    maxOutputTokens: 100000,
+    pricing: { input: 1.1, output: 4.4 },
+    capabilities: { ...REASONING, vision: false },
+  },
+  'o4-mini': {
+    contextWindow: 200000,
+    maxOutputTokens: 100000,
+    pricing: { input: 1.1, output: 4.4 },
+    capabilities: REASONING,
+  },
+  'gpt-5': {
+    contextWindow: 400000,
+    maxOutputTokens: 128000,
+    pricing: { input: 1.25, output: 10 },
+    capabilities: REASONING,
+  },
+  'gpt-5-mini': {
+    contextWindow: 400000,
+    maxOutputTokens: 128000,
+    pricing: { input: 0.25, output: 2 },
+    capabilities: REASONING,
+  },
+  'gpt-5-nano': {
+    contextWindow: 400000,
+    maxOutputTokens: 128000,
+    pricing: { input: 0.05, output: 0.4 },
+    capabilities: REASONING,
+  },
+  // Anthropic's extended thinking isn't used, so none count as reasoning here
+  'claude-opus-4-1': {
+    contextWindow: 200000,
+    maxOutputTokens: 32000,
+    pricing: { input: 15, output: 75 },
+  },
+  'claude-opus-4': {
+    contextWindow: 200000,
+    maxOutputTokens: 32000,
+    pricing: { input: 15, output: 75 },
+  },
+  'claude-sonnet-4-5': {
+    contextWindow: 200000,
+    maxOutputTokens: 64000,
+    pricing: { input: 3, output: 15 },
+  },
+  'claude-sonnet-4': {
+    contextWindow: 200000,
+    maxOutputTokens: 64000,
+    pricing: { input: 3, output: 15 },
+  },
+  'claude-3-7-sonnet': {
+    contextWindow: 200000,
+    maxOutputTokens: 64000,
+    pricing: { input: 3, output: 15 },
+  },
+  'claude-haiku-4-5': {
+    contextWindow: 200000,
+    maxOutputTokens: 64000,
+    pricing: { input: 1, output: 5 },
+  },
+  'claude-3-5-haiku': {
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.8, output: 4 },
+  },
+};
+
+// Dated snapshots (o3-2025-04-16, claude-sonnet-4-20250514) and aliases
+// (claude-3-7-sonnet-latest) share their family's entry
+function findBuiltIn(model: string): RegistryEntry | undefined {
+  if (BUILT_IN_MODELS[model]) {
+    return BUILT_IN_MODELS[model];
+  }
+  const family = Object.keys(BUILT_IN_MODELS)
+    .filter((name) => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return family ? BUILT_IN_MODELS[family] : undefined;
+}
+
+/**
+ * What's known about a model (the active one by default): the built-in entry
+ * with `models` from the config on top. The active profile's `contextWindow`
+ * wins for its own model.
+ */
+export function getModelInfo(
+  config: Config,
+  model: string = config.openai.model
+): ModelInfo {
+  const builtIn = findBuiltIn(model);
+  const override = config.models?.[model];
+  const profile = getActiveProfile(config);
+  const profileContextWindow =
+    profile?.model === model ? profile.contextWindow : undefined;
+
+  return {
+    contextWindow:
+      profileContextWindow ??
+      override?.contextWindow ??
+      builtIn?.contextWindow ??
+      DEFAULT_CONTEXT_WINDOW,
+    maxOutputTokens: override?.maxOutputTokens ?? builtIn?.maxOutputTokens,
+    // Local models cost nothing per token
+    pricing:
+      override?.pricing ??
+      builtIn?.pricing ??
+      (config.provider === 'ollama' ? { input: 0, output: 0 } : undefined),
+    capabilities: {
+      ...(builtIn ? DEFAULT_CAPABILITIES : UNKNOWN_MODEL_CAPABILITIES),
+      reasoning: REASONING_MODEL.test(model),
+      ...builtIn?.capabilities,
+      ...override?.capabilities,
+    },
+    known: !!(builtIn || override || profileContextWindow),
+  };
+}
+
+/**
+ * Adds the cost of a call at `pricing`; usage of unpriced models is returned
+ * as is
+ */
+export const withCost = (
+  usage: TokenUsage,
+  pricing: ModelPricing | undefined
+): TokenUsage =>
+  pricing
+    ? {
+        ...usage,
+        cost:
+          (usage.promptTokens * pricing.input +
+            usage.completionTokens * pricing.output) /
+          1_000_000,
+      }
+    : usage;
+
+/**
+ * Dollars with enough digits to tell small calls apart, e.g. $0.0042 or $1.27
+ */
+export const formatCost = (cost: number): string =>
+  `$${cost.toFixed(cost > 0 && cost < 0.1 ? 4 : 2)}`;
@@ -4,20 +4,22 @@ import {
   ChatResponse,
   StreamingCallbacks,
 } from '../openai.js';
+import type { MessageContent } from '../utils/messageContent.js';
 
 export class AgentMode {
   static async execute(
     client: OpenAIClient,
     previousMessages: Array<{
       role: 'user' | 'assistant' | 'tool' | 'system';
-      content: string;
+      content: MessageContent;
       tool_call_id?: string;
       tool_calls?: any[];
       isInternal?: boolean;
       displayContent?: string;
     }>,
-    userInput: string,
-    streamingCallbacks?: StreamingCallbacks
+    userInput: MessageContent,
+    streamingCallbacks?: StreamingCallbacks,
+    signal?: AbortSignal
   ): Promise<ChatResponse> {
     const messages: Message[] = [
       ...previousMessages.map((msg) => ({
@@ -39,6 +41,9 @@ export class AgentMode {
     let currentMessages = [...messages];
     let iteration = 0;
     const maxIterations = 25; // Prevent infinite loops
+    let cancelled = false;
+    // Reasoning behind a first response that needed no tools
+    let simpleReasoning: string | undefined;
 
     while (iteration < maxIterations) {
       iteration++;
@@ -47,14 +52,31 @@ export class AgentMode {
         currentMessages,
         true,
         streamingCallbacks,
-        true // isAgentMode = true
+        true, // isAgentMode = true
+        signal
       );
 
+      // Keep whatever the cancelled call produced and stop iterating
+      if (result.cancelled) {
+        cancelled = true;
+        if (result.messagesToAdd) {
+          currentMessages.push(...result.messagesToAdd);
+        } else if (result.content) {
+          currentMessages.push({
+            role: 'assistant',
+            content: result.content,
+            reasoning: result.reasoning,
+          });
+        }
+        break;
+      }
+
       responses.push(result.content);
 
       // If this is the first iteration and there are no tool calls, behave like chat mode
       if (iteration === 1 && (!result.messagesToAdd || result.messagesToAdd.length === 0)) {
         // No tools were called on the initial response, exit agent mode
+        simpleReasoning = result.reasoning;
         break;
       }
 
@@ -104,6 +126,7 @@ export class AgentMode {
         currentMessages.push({
           role: 'assistant',
           content: result.content,
+          reasoning: result.reasoning,
         });
 
         const remainingIterations = maxIterations - iteration;
@@ -138,8 +161,10 @@ export class AgentMode {
     return {
       // Only return content if we don't have messagesToAdd (simple responses without tools)
       content: messagesToAdd.length > 0 ? '' : responses.join('\n\n'),
+      reasoning: messagesToAdd.length > 0 ? undefined : simpleReasoning,
       toolCalls: allToolCalls.length > 0 ? allToolCalls : undefined,
       messagesToAdd: messagesToAdd.length > 0 ? messagesToAdd : undefined,
+      ...(cancelled && { cancelled: true }),
     };
   }
 }
@@ -4,20 +4,22 @@ import {
   ChatResponse,
   StreamingCallbacks,
 } from '../openai.js';
+import type { MessageContent } from '../utils/messageContent.js';
 
 export class ChatMode {
   static async execute(
     client: OpenAIClient,
     previousMessages: Array<{
       role: 'user' | 'assistant' | 'tool' | 'system';
-      content: string;
+      content: MessageContent;
       tool_call_id?: string;
       tool_calls?: any[];
       isInternal?: boolean;
       displayContent?: string;
     }>,
-    userInput: string,
-    streamingCallbacks?: StreamingCallbacks
+    userInput: MessageContent,
+    streamingCallbacks?: StreamingCallbacks,
+    signal?: AbortSignal
   ): Promise<ChatResponse> {
     let messages: Message[] = [
       ...previousMessages.map((msg) => ({
@@ -39,7 +41,19 @@ export class ChatMode {
     let allToolCalls: any[] = [];
     
     while (true) {
-      const response = await client.chat(messages, true, streamingCallbacks);
+      const response = await client.chat(
+        messages,
+        true,
+        streamingCallbacks,
+        false,
+        signal
+      );
+
+      // Stop at a cancelled call; its messagesToAdd answer any pending tool calls
+      if (response.cancelled) {
+        finalResponse = response;
+        break;
+      }
       
       // If we have tool calls, add the messages to our conversation and continue
       if (response.messagesToAdd && response.messagesToAdd.length > 0) {
@@ -1,16 +1,42 @@
-import OpenAI from 'openai';
 import { Config } from './schemas/config.js';
 import { zodSchemaToOpenAIFunction } from './utils/zodToOpenAI.js';
 import { Tool } from './utils/toolInfra.js';
 import { MCPClientManager } from './mcpClient.js';
+import {
+  createProvider,
+  type CompletionResult,
+  type LLMProvider,
+  type ResponseFormat,
+  type TokenUsage,
+  type ToolDefinition,
+} from './providers/index.js';
+import { withRetry, type RetryInfo } from './utils/retry.js';
+import { CANCELLED_TOOL_RESULT, raceAbort } from './utils/abort.js';
+import { mapWithConcurrency } from './utils/concurrency.js';
+import { getReasoningOptions } from './utils/reasoning.js';
+import { getImageParts, type MessageContent } from './utils/messageContent.js';
+import { getModelInfo, withCost, type ModelInfo } from './models.js';
+import {
+  countMessageTokens,
+  countTokens,
+  countToolCallTokens,
+} from './utils/tokenizer.js';
 
 export interface Message {
   role: 'user' | 'assistant' | 'system' | 'tool';
-  content: string;
+  content: MessageContent;
   tool_call_id?: string;
   tool_calls?: any[];
   isInternal?: boolean;
   displayContent?: string;
+  reasoning?: string; // Shown to the user, never sent back to the model
+}
+
+interface ToolCallResult {
+  name: string;
+  args: any;
+  result: string;
+  displayContent?: string;
 }
 
 export interface ChatResponse {
@@ -20,12 +46,11 @@ export interface ChatResponse {
     args: any;
     result: string;
   }>;
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  usage?: TokenUsage;
+  reasoning?: string;
   messagesToAdd?: Message[];
+  // The user aborted the request; pending tool calls were answered as cancelled
+  cancelled?: boolean;
 }
 
 export interface StreamingCallbacks {
@@ -44,25 +69,42 @@ export interface StreamingCallbacks {
     result: string,
     error?: string
   ) => void; // Called when tool execution completes
-  onUsage?: (usage: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  }) => void;
+  onToolCallCancelled?: (toolCallId: string) => void; // Called for calls stopped or skipped by an abort
+  onUsage?: (usage: TokenUsage) => void;
+  onReasoning?: (token: string) => void; // Streamed reasoning text, when the backend returns it
+  // Called before a failed request is repeated; anything streamed by the
+  // failed attempt is not part of the answer and should be discarded
+  onRetry?: (info: RetryInfo) => void;
+}
+
+interface SharedClientState {
+  tools: Map<string, Tool<any, any>>;
+  mcpManager: MCPClientManager;
 }
 
 export class OpenAIClient {
-  private client: OpenAI;
+  private provider: LLMProvider;
   private config: Config;
   private tools: Map<string, Tool<any, any>>;
   private mcpManager: MCPClientManager;
 
-  constructor(config: Config, tools: Tool<any, any>[]) {
+  /**
+   * `shared` hands over the tools and MCP connections of another client
+   * instead of connecting again (see withConfig)
+   */
+  constructor(
+    config: Config,
+    tools: Tool<any, any>[],
+    shared?: SharedClientState
+  ) {
     this.config = config;
-    this.client = new OpenAI({
-      apiKey: config.openai.apiKey,
-      baseURL: config.openai.baseURL,
-    });
+    this.provider = createProvider(config);
+
+    if (shared) {
+      this.tools = shared.tools;
+      this.mcpManager = shared.mcpManager;
+      return;
+    }
 
     // Create a map of tool names to tool instances
     this.tools = new Map();
@@ -88,6 +130,17 @@ export class OpenAIClient {
     return client;
   }
 
+  /**
+   * Creates a client for a different config that shares this client's tools
+   * and MCP connections (disconnecting either one closes them for both)
+   */
+  withConfig(config: Config): OpenAIClient {
+    return new OpenAIClient(config, [], {
+      tools: this.tools,
+      mcpManager: this.mcpManager,
+    });
+  }
+
   private async initializeMCPClients() {
     try {
       await this.mcpManager.initialize(this.config);
@@ -140,7 +193,8 @@ export class OpenAIClient {
     messages: Message[],
     useTools: boolean = false,
     streamingCallbacks?: StreamingCallbacks,
-    isAgentMode: boolean = false
+    isAgentMode: boolean = false,
+    signal?: AbortSignal
   ): Promise<ChatResponse> {
     const currentDate = new Date().toLocaleDateString('en-US', {
       weekday: 'long',
@@ -187,199 +241,150 @@ Use tools when needed to provide accurate and up-to-date information.`,
     };
 
     const allMessages = [systemMessage, ...messages];
+    const modelInfo = this.getModelInfo();
+    this.assertAcceptsImages(messages, modelInfo);
 
-    try {
-      if (streamingCallbacks) {
-        // Streaming mode
-        const stream = await this.client.chat.completions.create({
-          model: this.config.openai.model,
-          messages: allMessages.map((msg) => {
-            if (msg.role === 'tool') {
-              return {
-                role: 'tool' as const,
-                content: msg.content,
-                tool_call_id: msg.tool_call_id!,
-              };
-            } else if (msg.role === 'assistant' && msg.tool_calls) {
-              return {
-                role: msg.role,
-                content: msg.content,
-                tool_calls: msg.tool_calls,
-              };
-            } else {
-              return {
-                role: msg.role,
-                content: msg.content,
-              };
-            }
-          }),
-          max_tokens: this.config.maxTokens,
-          temperature: this.config.temperature,
-          tools: useTools ? this.getToolDefinitions() : undefined,
-          tool_choice: useTools ? 'auto' : undefined,
-          stream: true,
-          stream_options: { include_usage: true }, // Request usage info in streaming
-        });
-
-        let fullContent = '';
-        let toolCalls: any[] = [];
-        let accumulatedToolCalls: { [key: number]: any } = {};
-        let usage:
-          | {
-              promptTokens: number;
-              completionTokens: number;
-              totalTokens: number;
-            }
-          | undefined;
-
-        for await (const chunk of stream) {
-          const delta = chunk.choices[0]?.delta;
-
-          if (delta?.content) {
-            fullContent += delta.content;
-            streamingCallbacks.onToken?.(delta.content);
-          }
-
-          if (delta?.tool_calls) {
-            for (const toolCall of delta.tool_calls) {
-              const index = toolCall.index;
-              if (!accumulatedToolCalls[index]) {
-                accumulatedToolCalls[index] = {
-                  id: toolCall.id,
-                  type: toolCall.type,
-                  function: { name: '', arguments: '' },
-                };
-              }
-
-              if (toolCall.function?.name) {
-                accumulatedToolCalls[index].function.name +=
-                  toolCall.function.name;
-              }
-
-              if (toolCall.function?.arguments) {
-                accumulatedToolCalls[index].function.arguments +=
-                  toolCall.function.arguments;
-              }
-            }
-          }
-
-          // Capture usage information from the final chunk
-          if (chunk.usage) {
-            usage = {
-              promptTokens: chunk.usage.prompt_tokens,
-              completionTokens: chunk.usage.completion_tokens,
-              totalTokens: chunk.usage.total_tokens,
-            };
-            streamingCallbacks.onUsage?.(usage);
-          }
-        }
-
-        // Convert accumulated tool calls to array
-        toolCalls = Object.values(accumulatedToolCalls);
-
-        // Handle tool calls if any - DON'T call onComplete yet if we have tool calls
-        if (toolCalls.length > 0) {
-          // Notify that tool calls are ready (so assistant message can be updated)
-          streamingCallbacks?.onToolCallsReady?.(toolCalls);
-          const toolResult = await this.executeToolCalls(
-            toolCalls,
-            streamingCallbacks
-          );
+    // What the current attempt has streamed, kept as the answer if the user aborts
+    let streamedContent = '';
 
-          // Signal completion of initial response
-          streamingCallbacks.onComplete?.();
+    try {
+      const tools =
+        useTools && modelInfo.capabilities.tools
+          ? this.getToolDefinitions()
+          : undefined;
+      const completion = await withRetry(
+        () => {
+          streamedContent = '';
+          return this.provider.complete({
+            model: this.config.openai.model,
+            messages: allMessages,
+            tools,
+            maxTokens: this.getMaxTokens(modelInfo),
+            temperature: this.config.temperature,
+            reasoning: getReasoningOptions(this.config),
+            stream: !!streamingCallbacks,
+            streamUsage: modelInfo.capabilities.streamingUsage,
+            onToken:
+              streamingCallbacks &&
+              ((token) => {
+                streamedContent += token;
+                streamingCallbacks.onToken?.(token);
+              }),
+            onReasoning: streamingCallbacks?.onReasoning,
+            signal,
+          });
+        },
+        this.config.retry,
+        { onRetry: streamingCallbacks?.onRetry, signal }
+      );
 
-          return {
-            content: fullContent || 'No response content',
-            usage,
-            toolCalls: toolResult.toolCallResults,
-            messagesToAdd: toolResult.messagesToAdd,
-          };
+      let usage = completion.usage;
+      if (streamingCallbacks) {
+        // If no usage was provided by the stream, count it ourselves
+        if (!usage) {
+          usage = this.estimateTokenUsage(allMessages, tools, completion);
         }
+      }
+      if (usage) {
+        usage = withCost(usage, modelInfo.pricing);
+        streamingCallbacks?.onUsage?.(usage);
+      }
 
-        // Only call onComplete if we don't have tool calls
-        streamingCallbacks.onComplete?.();
+      // Handle tool calls if any - DON'T call onComplete yet if we have tool calls
+      if (completion.toolCalls.length > 0) {
+        // Notify that tool calls are ready (so assistant message can be updated)
+        streamingCallbacks?.onToolCallsReady?.(completion.toolCalls);
+        const toolResult = await this.executeToolCalls(
+          completion.toolCalls,
+          completion.reasoning,
+          streamingCallbacks,
+          signal
+        );
 
-        // If no usage was provided by the stream, estimate it
-        if (!usage) {
-          usage = this.estimateTokenUsage(allMessages, fullContent);
-          streamingCallbacks.onUsage?.(usage);
-        }
+        // Signal completion of initial response
+        streamingCallbacks?.onComplete?.();
 
         return {
-          content: fullContent || 'No response content',
+          content: completion.content || 'No response content',
           usage,
+          reasoning: completion.reasoning,
+          toolCalls: toolResult.toolCallResults,
+          messagesToAdd: toolResult.messagesToAdd,
+          ...(signal?.aborted && { cancelled: true }),
         };
-      } else {
-        // Non-streaming mode (existing code)
-        const completion = await this.client.chat.completions.create({
-          model: this.config.openai.model,
-          messages: allMessages.map((msg) => {
-            if (msg.role === 'tool') {
-              return {
-                role: 'tool' as const,
-                content: msg.content,
-                tool_call_id: msg.tool_call_id!,
-              };
-            } else if (msg.role === 'assistant' && msg.tool_calls) {
-              return {
-                role: msg.role,
-                content: msg.content,
-                tool_calls: msg.tool_calls,
-              };
-            } else {
-              return {
-                role: msg.role,
-                content: msg.content,
-              };
-            }
-          }),
-          max_tokens: this.config.maxTokens,
-          temperature: this.config.temperature,
-          tools: useTools ? this.getToolDefinitions() : undefined,
-          tool_choice: useTools ? 'auto' : undefined,
-        });
-
-        const message = completion.choices[0]?.message;
-        if (!message) {
-          throw new Error('No response from OpenAI');
-        }
+      }
 
-        const usage = completion.usage
-          ? {
-              promptTokens: completion.usage.prompt_tokens,
-              completionTokens: completion.usage.completion_tokens,
-              totalTokens: completion.usage.total_tokens,
-            }
-          : undefined;
+      streamingCallbacks?.onComplete?.();
 
-        // Handle tool calls
-        if (message.tool_calls && message.tool_calls.length > 0) {
-          const toolResult = await this.executeToolCalls(message.tool_calls);
+      return {
+        content: completion.content || 'No response content',
+        usage,
+        reasoning: completion.reasoning,
+      };
+    } catch (error) {
+      if (signal?.aborted) {
+        // Keep what was already shown; nothing else of this request is used
+        streamingCallbacks?.onComplete?.();
+        return { content: streamedContent, cancelled: true };
+      }
+      throw new Error(
+        `${this.provider.label} API error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
 
-          return {
-            content: message.content || 'No response content',
-            usage,
-            toolCalls: toolResult.toolCallResults,
-            messagesToAdd: toolResult.messagesToAdd,
-          };
-        }
+  /**
+   * A single answer without tools that should be JSON matching `format`. The
+   * backend constrains the output when the model supports it; either way the
+   * caller has to parse and validate the content.
+   */
+  async completeJSON(
+    messages: Message[],
+    format: ResponseFormat
+  ): Promise<{ content: string; usage?: TokenUsage; constrained: boolean }> {
+    const modelInfo = this.getModelInfo();
+    this.assertAcceptsImages(messages, modelInfo);
+    const constrained =
+      this.provider.supportsResponseFormat?.(this.config.openai.model) ?? false;
+    const systemMessage: Message = {
+      role: 'system',
+      content: `You are Jecko, a data extraction assistant. Reply with a single JSON value that matches this JSON Schema, with no prose and no code fences:
 
-        return {
-          content: message.content || 'No response content',
-          usage,
-        };
-      }
+${JSON.stringify(format.schema, null, 2)}`,
+    };
+
+    try {
+      const completion = await withRetry(
+        () =>
+          this.provider.complete({
+            model: this.config.openai.model,
+            messages: [systemMessage, ...messages],
+            maxTokens: this.getMaxTokens(modelInfo),
+            temperature: this.config.temperature,
+            reasoning: getReasoningOptions(this.config),
+            responseFormat: constrained ? format : undefined,
+            stream: false,
+          }),
+        this.config.retry
+      );
+      return {
+        content: completion.content,
+        usage:
+          completion.usage && withCost(completion.usage, modelInfo.pricing),
+        constrained,
+      };
     } catch (error) {
       throw new Error(
-        `OpenAI API error: ${error instanceof Error ? error.message : 'Unknown error'}`
+        `${this.provider.label} API error: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
     }
   }
 
   private async executeToolCalls(
     toolCalls: any[],
-    streamingCallbacks?: StreamingCallbacks
+    reasoning: string | undefined,
+    streamingCallbacks?: StreamingCallbacks,
+    signal?: AbortSignal
   ): Promise<{
     toolCallResults: Array<{
       name: string;
@@ -388,66 +393,36 @@ Use tools when needed to provide accurate and up-to-date information.`,
     }>;
     messagesToAdd: Message[];
   }> {
-    const toolCallResults: Array<{
-      name: string;
-      args: any;
-      result: string;
-      displayContent?: string;
-    }> = [];
-
-    for (const toolCall of toolCalls) {
-      const toolName = toolCall.function.name;
-      const tool = this.tools.get(toolName);
+    // Indexed like toolCalls; unknown tools leave a gap
+    const results: Array<ToolCallResult | undefined> = new Array(
+      toolCalls.length
+    );
 
-      if (!tool) {
-        console.warn(`Unknown tool: ${toolName}`);
-        continue;
+    // Consecutive parallel-safe calls run together; the others run alone, in order
+    const batches: Array<{ parallel: boolean; indexes: number[] }> = [];
+    toolCalls.forEach((toolCall, index) => {
+      const parallel =
+        this.tools.get(toolCall.function.name)?.parallelSafe !== false;
+      const lastBatch = batches[batches.length - 1];
+      if (parallel && lastBatch?.parallel) {
+        lastBatch.indexes.push(index);
+      } else {
+        batches.push({ parallel, indexes: [index] });
       }
+    });
 
-      try {
-        const params = JSON.parse(toolCall.function.arguments);
-
-        // Notify that we're making a tool call
-        streamingCallbacks?.onToolCall?.(toolCall.id, toolName, params, tool);
-
-        const result = await tool.execute(params, this.config);
-        toolCallResults.push({
-          name: toolName,
-          args: params,
-          result: result,
-          displayContent: tool.formatToolCall?.(params),
-        });
-
-        // Notify that tool execution completed
-        streamingCallbacks?.onToolCallComplete?.(toolCall.id, result);
-      } catch (error) {
-        let args = {};
-        try {
-          args = JSON.parse(toolCall.function.arguments);
-        } catch (jsonError) {
-          console.error(
-            'Failed to parse tool arguments:',
-            toolCall.function.arguments
+    for (const batch of batches) {
+      await mapWithConcurrency(
+        batch.indexes,
+        this.config.toolConcurrency,
+        async (index) => {
+          results[index] = await this.executeToolCall(
+            toolCalls[index],
+            streamingCallbacks,
+            signal
           );
         }
-
-        // Notify about the tool call even if it fails
-        streamingCallbacks?.onToolCall?.(toolCall.id, toolName, args, tool);
-
-        const errorMessage = `Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
-        toolCallResults.push({
-          name: toolName,
-          args: args,
-          result: errorMessage,
-        });
-
-        // Notify that tool execution failed
-        streamingCallbacks?.onToolCallComplete?.(
-          toolCall.id,
-          errorMessage,
-          error instanceof Error ? error.message : 'Unknown error'
-        );
-      }
+      );
     }
 
     // First, add the assistant message with tool calls
@@ -455,56 +430,183 @@ Use tools when needed to provide accurate and up-to-date information.`,
       role: 'assistant',
       content: '', // Tool calls don't need content
       tool_calls: toolCalls,
+      ...(reasoning && { reasoning }),
     };
 
     // Then, add tool response messages for each tool call
     const toolResponseMessages: Message[] = toolCalls.map(
       (toolCall, index) => ({
         role: 'tool',
-        content: toolCallResults[index]?.result || 'Tool execution failed',
+        content: results[index]?.result || 'Tool execution failed',
         tool_call_id: toolCall.id,
-        displayContent: toolCallResults[index]?.displayContent,
+        displayContent: results[index]?.displayContent,
       })
     );
 
     return {
-      toolCallResults,
+      toolCallResults: results.filter(
+        (result): result is ToolCallResult => result !== undefined
+      ),
       messagesToAdd: [assistantToolCallMessage, ...toolResponseMessages],
     };
   }
 
+  private async executeToolCall(
+    toolCall: any,
+    streamingCallbacks?: StreamingCallbacks,
+    signal?: AbortSignal
+  ): Promise<ToolCallResult | undefined> {
+    const toolName = toolCall.function.name;
+    const tool = this.isToolEnabled(toolName)
+      ? this.tools.get(toolName)
+      : undefined;
+
+    if (!tool) {
+      console.warn(`Unknown tool: ${toolName}`);
+      return undefined;
+    }
+
+    // Calls after an abort are answered without running, so none are left pending
+    if (signal?.aborted) {
+      let args = {};
+      try {
+        args = JSON.parse(toolCall.function.arguments);
+      } catch {
+        // Shown with empty arguments
+      }
+      streamingCallbacks?.onToolCall?.(toolCall.id, toolName, args, tool);
+      streamingCallbacks?.onToolCallCancelled?.(toolCall.id);
+      return { name: toolName, args, result: CANCELLED_TOOL_RESULT };
+    }
+
+    try {
+      const params = JSON.parse(toolCall.function.arguments);
+
+      // Notify that we're making a tool call
+      streamingCallbacks?.onToolCall?.(toolCall.id, toolName, params, tool);
+
+      const result = await raceAbort(
+        tool.execute(params, this.config, signal),
+        signal
+      );
+
+      // Notify that tool execution completed
+      streamingCallbacks?.onToolCallComplete?.(toolCall.id, result);
+
+      return {
+        name: toolName,
+        args: params,
+        result: result,
+        displayContent: tool.formatToolCall?.(params),
+      };
+    } catch (error) {
+      let args = {};
+      try {
+        args = JSON.parse(toolCall.function.arguments);
+      } catch (jsonError) {
+        console.error(
+          'Failed to parse tool arguments:',
+          toolCall.function.arguments
+        );
+      }
+
+      if (signal?.aborted) {
+        streamingCallbacks?.onToolCallCancelled?.(toolCall.id);
+        return { name: toolName, args, result: CANCELLED_TOOL_RESULT };
+      }
+
+      // Notify about the tool call even if it fails
+      streamingCallbacks?.onToolCall?.(toolCall.id, toolName, args, tool);
+
+      const errorMessage = `Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+
+      // Notify that tool execution failed
+      streamingCallbacks?.onToolCallComplete?.(
+        toolCall.id,
+        errorMessage,
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+
+      return { name: toolName, args: args, result: errorMessage };
+    }
+  }
+
   async chatWithTools(messages: Message[]): Promise<ChatResponse> {
     return await this.chat(messages, true);
   }
 
   private getToolDefinitions() {
-    const toolDefs = Array.from(this.tools.values()).map((tool) =>
-      zodSchemaToOpenAIFunction(tool.name, tool.description, tool.schema)
-    );
+    const toolDefs = Array.from(this.tools.values())
+      .filter((tool) => this.isToolEnabled(tool.name))
+      .map((tool) =>
+        zodSchemaToOpenAIFunction(tool.name, tool.description, tool.schema)
+      );
 
     return toolDefs;
   }
 
+  // The agent's own plan/done tools stay available so agent mode can finish
+  private isToolEnabled(name: string): boolean {
+    const allowlist = this.config.tools;
+    return !allowlist || allowlist.includes(name) || name.startsWith('agent_');
+  }
+
+  getModel(): string {
+    return this.config.openai.model;
+  }
+
+  /**
+   * Registry entry for the configured model
+   */
+  getModelInfo(): ModelInfo {
+    return getModelInfo(this.config);
+  }
+
+  // The configured limit, capped only where the model's own limit is known
+  private getMaxTokens(modelInfo: ModelInfo): number {
+    return modelInfo.maxOutputTokens === undefined
+      ? this.config.maxTokens
+      : Math.min(this.config.maxTokens, modelInfo.maxOutputTokens);
+  }
+
+  // Fails before the request instead of with a vague API error
+  private assertAcceptsImages(messages: Message[], modelInfo: ModelInfo) {
+    const model = this.config.openai.model;
+    if (
+      !modelInfo.capabilities.vision &&
+      messages.some((msg) => getImageParts(msg.content).length > 0)
+    ) {
+      throw new Error(
+        `${model} does not accept images. Switch to a vision model, or set models.${model}.capabilities.vision in the config if it does.`
+      );
+    }
+  }
+
   /**
-   * Estimates token usage when not provided by the API
-   * Rough estimation: ~4 characters per token
+   * Counts the prompt tokens `messages` take for the configured model
+   */
+  countTokens(messages: Message[]): number {
+    return countMessageTokens(messages, this.config.openai.model);
+  }
+
+  /**
+   * Counts token usage locally when the API doesn't report it
    */
   private estimateTokenUsage(
     messages: Message[],
-    responseContent: string
-  ): { promptTokens: number; completionTokens: number; totalTokens: number } {
-    const promptText = messages.map((msg) => msg.content).join(' ');
-    const promptChars = promptText.length;
-    const responseChars = responseContent.length;
-
-    const promptTokens = Math.ceil(promptChars / 4);
-    const completionTokens = Math.ceil(responseChars / 4);
-    const totalTokens = promptTokens + completionTokens;
+    tools: ToolDefinition[] | undefined,
+    completion: CompletionResult
+  ): TokenUsage {
+    const model = this.config.openai.model;
+    const promptTokens = countMessageTokens(messages, model, tools);
+    const completionTokens =
+      countTokens(completion.content, model) +
+      countToolCallTokens(completion.toolCalls, model);
 
     return {
       promptTokens,
       completionTokens,
-      totalTokens,
+      totalTokens: promptTokens + completionTokens,
     };
   }
 }
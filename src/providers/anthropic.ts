@@ -0,0 +1,192 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type { Message } from '../openai.js';
+import {
+  getTextContent,
+  parseDataURL,
+  type ContentPart,
+  type MessageContent,
+} from '../utils/messageContent.js';
+import type {
+  CompletionRequest,
+  CompletionResult,
+  LLMProvider,
+  ToolDefinition,
+} from './types.js';
+
+const parseArguments = (args: string): Record<string, unknown> => {
+  try {
+    const parsed = JSON.parse(args || '{}');
+    return typeof parsed === 'object' && parsed !== null ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+// Images become base64 image blocks
+const toContentBlocks = (
+  content: MessageContent
+): Anthropic.ContentBlockParam[] =>
+  (typeof content === 'string'
+    ? [{ type: 'text', text: content } as ContentPart]
+    : content
+  )
+    .filter((part) => part.type !== 'text' || part.text.trim())
+    .map((part): Anthropic.ContentBlockParam => {
+      if (part.type === 'text') {
+        return { type: 'text', text: part.text };
+      }
+      const { mediaType, data } = parseDataURL(part.image_url.url);
+      return {
+        type: 'image',
+        source: {
+          type: 'base64',
+          media_type: mediaType as Anthropic.Base64ImageSource['media_type'],
+          data,
+        },
+      };
+    });
+
+/**
+ * Converts chat completions messages to the Messages API shape: the system
+ * prompt is a separate parameter, tool calls become `tool_use` blocks and
+ * tool results are `tool_result` blocks sent back as a user turn
+ */
+function toAnthropicMessages(messages: Message[]): {
+  system: string;
+  messages: Anthropic.MessageParam[];
+} {
+  const system: string[] = [];
+  const converted: Anthropic.MessageParam[] = [];
+
+  const push = (
+    role: Anthropic.MessageParam['role'],
+    blocks: Anthropic.ContentBlockParam[]
+  ) => {
+    if (blocks.length === 0) {
+      return;
+    }
+    // Consecutive turns of the same role are merged; the API expects them to alternate
+    const last = converted[converted.length - 1];
+    if (last?.role === role) {
+      (last.content as Anthropic.ContentBlockParam[]).push(...blocks);
+    } else {
+      converted.push({ role, content: blocks });
+    }
+  };
+
+  for (const msg of messages) {
+    const text = toContentBlocks(msg.content);
+
+    if (msg.role === 'system') {
+      system.push(getTextContent(msg.content));
+    } else if (msg.role === 'tool') {
+      push('user', [
+        {
+          type: 'tool_result',
+          tool_use_id: msg.tool_call_id!,
+          content: getTextContent(msg.content),
+        },
+      ]);
+    } else if (msg.role === 'assistant') {
+      push('assistant', [
+        ...text,
+        ...(msg.tool_calls ?? []).map(
+          (toolCall): Anthropic.ToolUseBlockParam => ({
+            type: 'tool_use',
+            id: toolCall.id,
+            name: toolCall.function.name,
+            input: parseArguments(toolCall.function.arguments),
+          })
+        ),
+      ]);
+    } else {
+      push('user', text);
+    }
+  }
+
+  return { system: system.join('\n\n'), messages: converted };
+}
+
+const toAnthropicTool = (tool: ToolDefinition): Anthropic.Tool => ({
+  name: tool.function.name,
+  description: tool.function.description,
+  input_schema: (tool.function.parameters ?? {
+    type: 'object',
+  }) as Anthropic.Tool.InputSchema,
+});
+
+/**
+ * Native Anthropic Messages API backend
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  readonly label = 'Anthropic';
+  private client: Anthropic;
+
+  constructor(options: { apiKey: string; baseURL?: string }) {
+    this.client = new Anthropic({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+      // OpenAIClient retries with the configured policy
+      maxRetries: 0,
+    });
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const { system, messages } = toAnthropicMessages(request.messages);
+    const params: Anthropic.MessageCreateParamsNonStreaming = {
+      model: request.model,
+      system: system || undefined,
+      messages,
+      max_tokens: request.maxTokens,
+      // The Messages API only accepts 0-1
+      temperature: Math.min(request.temperature, 1),
+      tools: request.tools?.map(toAnthropicTool),
+    };
+
+    let message: Anthropic.Message;
+    if (request.stream) {
+      const stream = this.client.messages.stream(params, {
+        signal: request.signal,
+      });
+      stream.on('text', (token) => request.onToken?.(token));
+      message = await stream.finalMessage();
+    } else {
+      message = await this.client.messages.create(params, {
+        signal: request.signal,
+      });
+    }
+
+    const content = message.content
+      .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+      .map((block) => block.text)
+      .join('');
+    const toolCalls = message.content
+      .filter(
+        (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use'
+      )
+      .map((block) => ({
+        id: block.id,
+        type: 'function' as const,
+        function: {
+          name: block.name,
+          arguments: JSON.stringify(block.input ?? {}),
+        },
+      }));
+
+    // Cached prompt tokens are reported separately from input_tokens
+    const promptTokens =
+      message.usage.input_tokens +
+      (message.usage.cache_creation_input_tokens ?? 0) +
+      (message.usage.cache_read_input_tokens ?? 0);
+    return {
+      content,
+      toolCalls,
+      usage: {
+        promptTokens,
+        completionTokens: message.usage.output_tokens,
+        totalTokens: promptTokens + message.usage.output_tokens,
+      },
+    };
+  }
+}
@@ -0,0 +1,28 @@
+import type { Config } from '../schemas/config.js';
+import { AnthropicProvider } from './anthropic.js';
+import { OllamaProvider } from './ollama.js';
+import { OpenAIProvider } from './openai.js';
+import type { LLMProvider } from './types.js';
+
+export type * from './types.js';
+
+/**
+ * Builds the backend selected by `config.provider`
+ */
+export function createProvider(config: Config): LLMProvider {
+  switch (config.provider) {
+    case 'anthropic':
+      return new AnthropicProvider({
+        apiKey: config.anthropic!.apiKey,
+        baseURL: config.anthropic!.baseURL,
+      });
+    case 'ollama':
+      return new OllamaProvider({ baseURL: config.ollama?.baseURL });
+    case 'openai':
+    default:
+      return new OpenAIProvider({
+        apiKey: config.openai.apiKey,
+        baseURL: config.openai.baseURL,
+      });
+  }
+}
@@ -0,0 +1,217 @@
+import { nanoid } from '@reduxjs/toolkit';
+import type { Message } from '../openai.js';
+import {
+  getImageParts,
+  getTextContent,
+  parseDataURL,
+} from '../utils/messageContent.js';
+import type {
+  CompletionRequest,
+  CompletionResult,
+  LLMProvider,
+  ToolCall,
+  TokenUsage,
+} from './types.js';
+
+export const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
+
+interface OllamaMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  tool_calls?: {
+    function: { name: string; arguments: Record<string, unknown> };
+  }[];
+  tool_name?: string;
+  images?: string[]; // Base64 without the data URL prefix
+}
+
+interface OllamaChatChunk {
+  message?: {
+    content?: string;
+    thinking?: string;
+    tool_calls?: {
+      function: { name: string; arguments?: Record<string, unknown> };
+    }[];
+  };
+  done?: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+// Carries the HTTP status so failed requests can be retried like SDK errors
+class OllamaError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'OllamaError';
+  }
+}
+
+const parseArguments = (args: string): Record<string, unknown> => {
+  try {
+    const parsed = JSON.parse(args || '{}');
+    return typeof parsed === 'object' && parsed !== null ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Ollama has no tool call ids: calls carry parsed arguments and results are
+ * matched back by tool name
+ */
+function toOllamaMessages(messages: Message[]): OllamaMessage[] {
+  const toolNames = new Map<string, string>();
+
+  return messages.map((msg): OllamaMessage => {
+    if (msg.role === 'assistant' && msg.tool_calls?.length) {
+      for (const toolCall of msg.tool_calls) {
+        toolNames.set(toolCall.id, toolCall.function.name);
+      }
+      return {
+        role: 'assistant',
+        content: getTextContent(msg.content),
+        tool_calls: msg.tool_calls.map((toolCall) => ({
+          function: {
+            name: toolCall.function.name,
+            arguments: parseArguments(toolCall.function.arguments),
+          },
+        })),
+      };
+    }
+    if (msg.role === 'tool') {
+      return {
+        role: 'tool',
+        content: getTextContent(msg.content),
+        tool_name: msg.tool_call_id
+          ? toolNames.get(msg.tool_call_id)
+          : undefined,
+      };
+    }
+    const images = getImageParts(msg.content).map(
+      (image) => parseDataURL(image.image_url.url).data
+    );
+    return {
+      role: msg.role,
+      content: getTextContent(msg.content),
+      ...(images.length > 0 && { images }),
+    };
+  });
+}
+
+/**
+ * Native Ollama `/api/chat` backend
+ */
+export class OllamaProvider implements LLMProvider {
+  readonly name = 'ollama';
+  readonly label = 'Ollama';
+  private baseURL: string;
+
+  constructor(options: { baseURL?: string } = {}) {
+    this.baseURL = (options.baseURL ?? DEFAULT_OLLAMA_URL).replace(/\/+$/, '');
+  }
+
+  // Every model can be constrained with `format`
+  supportsResponseFormat(): boolean {
+    return true;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const response = await fetch(`${this.baseURL}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      signal: request.signal,
+      body: JSON.stringify({
+        model: request.model,
+        messages: toOllamaMessages(request.messages),
+        tools: request.tools,
+        stream: request.stream,
+        // Thinking models return their reasoning separately when asked
+        ...(request.reasoning && { think: true }),
+        ...(request.responseFormat && {
+          format: request.responseFormat.schema,
+        }),
+        options: {
+          temperature: request.temperature,
+          num_predict: request.maxTokens,
+        },
+      }),
+    });
+
+    if (!response.ok || !response.body) {
+      const body = await response.text().catch(() => '');
+      let message = body || response.statusText;
+      try {
+        message = JSON.parse(body).error ?? message;
+      } catch {
+        // Not JSON; use the raw body
+      }
+      throw new OllamaError(`${response.status} ${message}`, response.status);
+    }
+
+    let content = '';
+    let reasoning = '';
+    const toolCalls: ToolCall[] = [];
+    let usage: TokenUsage | undefined;
+
+    const handleChunk = (chunk: OllamaChatChunk) => {
+      if (chunk.error) {
+        throw new OllamaError(chunk.error);
+      }
+      if (chunk.message?.thinking) {
+        reasoning += chunk.message.thinking;
+        request.onReasoning?.(chunk.message.thinking);
+      }
+      if (chunk.message?.content) {
+        content += chunk.message.content;
+        request.onToken?.(chunk.message.content);
+      }
+      for (const toolCall of chunk.message?.tool_calls ?? []) {
+        toolCalls.push({
+          id: `call_${nanoid()}`,
+          type: 'function',
+          function: {
+            name: toolCall.function.name,
+            arguments: JSON.stringify(toolCall.function.arguments ?? {}),
+          },
+        });
+      }
+      if (chunk.done) {
+        const promptTokens = chunk.prompt_eval_count ?? 0;
+        const completionTokens = chunk.eval_count ?? 0;
+        usage = {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens,
+        };
+      }
+    };
+
+    if (!request.stream) {
+      handleChunk((await response.json()) as OllamaChatChunk);
+      return { content, toolCalls, reasoning: reasoning || undefined, usage };
+    }
+
+    // Streaming responses are newline-delimited JSON objects
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for await (const bytes of response.body) {
+      buffer += decoder.decode(bytes, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.trim()) {
+          handleChunk(JSON.parse(line));
+        }
+      }
+    }
+    if (buffer.trim()) {
+      handleChunk(JSON.parse(buffer));
+    }
+
+    return { content, toolCalls, reasoning: reasoning || undefined, usage };
+  }
+}
@@ -0,0 +1,200 @@
+import OpenAI from 'openai';
+import type { Message } from '../openai.js';
+import {
+  getTextContent,
+  type MessageContent,
+} from '../utils/messageContent.js';
+import type {
+  CompletionRequest,
+  CompletionResult,
+  LLMProvider,
+  ToolCall,
+  TokenUsage,
+} from './types.js';
+
+// Drops the UI-only file names from image parts
+const toUserContent = (
+  content: MessageContent
+): string | OpenAI.ChatCompletionContentPart[] =>
+  typeof content === 'string'
+    ? content
+    : content.map((part) =>
+        part.type === 'text'
+          ? part
+          : { type: 'image_url', image_url: { url: part.image_url.url } }
+      );
+
+const toChatCompletionMessage = (
+  msg: Message
+): OpenAI.ChatCompletionMessageParam => {
+  if (msg.role === 'tool') {
+    return {
+      role: 'tool',
+      content: getTextContent(msg.content),
+      tool_call_id: msg.tool_call_id!,
+    };
+  } else if (msg.role === 'assistant' && msg.tool_calls) {
+    return {
+      role: msg.role,
+      content: getTextContent(msg.content),
+      tool_calls: msg.tool_calls,
+    };
+  } else if (msg.role === 'user') {
+    return { role: 'user', content: toUserContent(msg.content) };
+  } else {
+    return {
+      role: msg.role,
+      content: getTextContent(msg.content),
+    } as OpenAI.ChatCompletionMessageParam;
+  }
+};
+
+const toTokenUsage = (usage: OpenAI.CompletionUsage): TokenUsage => ({
+  promptTokens: usage.prompt_tokens,
+  completionTokens: usage.completion_tokens,
+  totalTokens: usage.total_tokens,
+  ...(usage.completion_tokens_details?.reasoning_tokens && {
+    reasoningTokens: usage.completion_tokens_details.reasoning_tokens,
+  }),
+});
+
+// OpenAI keeps reasoning hidden; compatible servers (vLLM, DeepSeek,
+// OpenRouter) return it under one of these non-standard fields
+const getReasoningText = (message: object | undefined): string | undefined => {
+  const { reasoning_content, reasoning } = (message ?? {}) as {
+    reasoning_content?: unknown;
+    reasoning?: unknown;
+  };
+  const text = reasoning_content ?? reasoning;
+  return typeof text === 'string' && text ? text : undefined;
+};
+
+// Models with json_schema response formats; older ones only have json_object
+const STRUCTURED_OUTPUT_MODEL = /^(gpt-4o|gpt-4\.1|gpt-5|o\d)/;
+
+/**
+ * Chat completions API, also used for OpenAI-compatible servers via baseURL
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai';
+  readonly label = 'OpenAI';
+  private client: OpenAI;
+
+  constructor(options: { apiKey?: string; baseURL?: string }) {
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+      // OpenAIClient retries with the configured policy
+      maxRetries: 0,
+    });
+  }
+
+  supportsResponseFormat(model: string): boolean {
+    return STRUCTURED_OUTPUT_MODEL.test(model) && model !== 'gpt-4o-2024-05-13';
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const params = {
+      model: request.model,
+      messages: request.messages.map(toChatCompletionMessage),
+      // Reasoning models reject max_tokens and any non-default temperature
+      ...(request.reasoning
+        ? {
+            max_completion_tokens: request.maxTokens,
+            reasoning_effort: request.reasoning.effort,
+          }
+        : { max_tokens: request.maxTokens, temperature: request.temperature }),
+      tools: request.tools,
+      tool_choice: request.tools ? ('auto' as const) : undefined,
+      response_format: request.responseFormat && {
+        type: 'json_schema' as const,
+        // Not strict: strict mode rejects schemas with optional properties;
+        // the caller validates the answer either way
+        json_schema: { ...request.responseFormat, strict: false },
+      },
+    };
+
+    if (!request.stream) {
+      const completion = await this.client.chat.completions.create(params, {
+        signal: request.signal,
+      });
+
+      const message = completion.choices[0]?.message;
+      if (!message) {
+        throw new Error('No response from OpenAI');
+      }
+
+      return {
+        content: message.content ?? '',
+        toolCalls: (message.tool_calls ?? []) as ToolCall[],
+        reasoning: getReasoningText(message),
+        usage: completion.usage ? toTokenUsage(completion.usage) : undefined,
+      };
+    }
+
+    const stream = await this.client.chat.completions.create(
+      {
+        ...params,
+        stream: true,
+        // Request usage info in streaming
+        stream_options:
+          request.streamUsage === false ? undefined : { include_usage: true },
+      },
+      { signal: request.signal }
+    );
+
+    let content = '';
+    let reasoning = '';
+    const accumulatedToolCalls: { [key: number]: ToolCall } = {};
+    let usage: TokenUsage | undefined;
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta;
+
+      const reasoningDelta = getReasoningText(delta);
+      if (reasoningDelta) {
+        reasoning += reasoningDelta;
+        request.onReasoning?.(reasoningDelta);
+      }
+
+      if (delta?.content) {
+        content += delta.content;
+        request.onToken?.(delta.content);
+      }
+
+      if (delta?.tool_calls) {
+        for (const toolCall of delta.tool_calls) {
+          const index = toolCall.index;
+          if (!accumulatedToolCalls[index]) {
+            accumulatedToolCalls[index] = {
+              id: toolCall.id!,
+              type: 'function',
+              function: { name: '', arguments: '' },
+            };
+          }
+
+          if (toolCall.function?.name) {
+            accumulatedToolCalls[index].function.name += toolCall.function.name;
+          }
+
+          if (toolCall.function?.arguments) {
+            accumulatedToolCalls[index].function.arguments +=
+              toolCall.function.arguments;
+          }
+        }
+      }
+
+      // Capture usage information from the final chunk
+      if (chunk.usage) {
+        usage = toTokenUsage(chunk.usage);
+      }
+    }
+
+    return {
+      content,
+      toolCalls: Object.values(accumulatedToolCalls),
+      reasoning: reasoning || undefined,
+      usage,
+    };
+  }
+}
@@ -0,0 +1,382 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Message } from '../openai.js';
+import { AnthropicProvider } from './anthropic.js';
+import { OllamaProvider } from './ollama.js';
+import { OpenAIProvider } from './openai.js';
+import type { CompletionRequest } from './types.js';
+
+interface RecordedRequest {
+  path: string;
+  body: any;
+}
+
+/**
+ * A local stand-in for a backend: records each request and answers with
+ * whatever `reply` returns for it
+ */
+class MockServer {
+  requests: RecordedRequest[] = [];
+  reply: (request: RecordedRequest) => {
+    contentType?: string;
+    body: string;
+  } = () => ({ body: '{}' });
+  private server: Server;
+
+  constructor() {
+    this.server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const request = { path: req.url ?? '', body: JSON.parse(body || '{}') };
+        this.requests.push(request);
+        const response = this.reply(request);
+        res.writeHead(200, {
+          'content-type': response.contentType ?? 'application/json',
+        });
+        res.end(response.body);
+      });
+    });
+  }
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  get lastBody(): any {
+    return this.requests[this.requests.length - 1].body;
+  }
+
+  listen(): Promise<void> {
+    return new Promise((resolve) =>
+      this.server.listen(0, '127.0.0.1', resolve)
+    );
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+}
+
+const IMAGE_DATA = 'iVBORw0KGgo=';
+const IMAGE_URL = `data:image/png;base64,${IMAGE_DATA}`;
+
+// A tool round trip: the user asks, the assistant calls two tools at once and
+// both results come back before the next turn
+const TOOL_CONVERSATION: Message[] = [
+  { role: 'system', content: 'Be brief.' },
+  { role: 'user', content: 'Weather in Oslo and Bergen?' },
+  {
+    role: 'assistant',
+    content: 'Checking.',
+    tool_calls: [
+      {
+        id: 'call_1',
+        type: 'function',
+        function: { name: 'weather', arguments: '{"city":"Oslo"}' },
+      },
+      {
+        id: 'call_2',
+        type: 'function',
+        function: { name: 'weather', arguments: '{"city":"Bergen"}' },
+      },
+    ],
+  },
+  { role: 'tool', tool_call_id: 'call_1', content: 'Sunny' },
+  { role: 'tool', tool_call_id: 'call_2', content: 'Rain' },
+];
+
+const IMAGE_CONVERSATION: Message[] = [
+  {
+    role: 'user',
+    content: [
+      { type: 'text', text: 'What is this?' },
+      { type: 'image_url', image_url: { url: IMAGE_URL }, name: 'cat.png' },
+    ],
+  },
+];
+
+const request = (
+  messages: Message[],
+  overrides: Partial<CompletionRequest> = {}
+): CompletionRequest => ({
+  model: 'test-model',
+  messages,
+  maxTokens: 100,
+  temperature: 0.5,
+  stream: false,
+  ...overrides,
+});
+
+describe('OpenAIProvider', () => {
+  const server = new MockServer();
+  before(() => server.listen());
+  after(() => server.close());
+
+  const provider = () =>
+    new OpenAIProvider({ apiKey: 'test', baseURL: `${server.url}/v1` });
+
+  server.reply = () => ({
+    body: JSON.stringify({
+      id: 'chatcmpl-1',
+      object: 'chat.completion',
+      created: 0,
+      model: 'test-model',
+      choices: [
+        {
+          index: 0,
+          finish_reason: 'tool_calls',
+          message: {
+            role: 'assistant',
+            content: null,
+            tool_calls: [
+              {
+                id: 'call_3',
+                type: 'function',
+                function: { name: 'weather', arguments: '{"city":"Tromsø"}' },
+              },
+            ],
+          },
+        },
+      ],
+      usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+    }),
+  });
+
+  it('sends tool calls and results in the chat completions format', async () => {
+    const result = await provider().complete(request(TOOL_CONVERSATION));
+
+    const { messages } = server.lastBody;
+    assert.equal(messages.length, 5);
+    assert.deepEqual(messages[2].tool_calls, TOOL_CONVERSATION[2].tool_calls);
+    assert.deepEqual(messages[3], {
+      role: 'tool',
+      content: 'Sunny',
+      tool_call_id: 'call_1',
+    });
+
+    assert.deepEqual(result.toolCalls, [
+      {
+        id: 'call_3',
+        type: 'function',
+        function: { name: 'weather', arguments: '{"city":"Tromsø"}' },
+      },
+    ]);
+    assert.deepEqual(result.usage, {
+      promptTokens: 12,
+      completionTokens: 3,
+      totalTokens: 15,
+    });
+  });
+
+  it('sends images as image_url parts without their file names', async () => {
+    await provider().complete(request(IMAGE_CONVERSATION));
+
+    assert.deepEqual(server.lastBody.messages[0].content, [
+      { type: 'text', text: 'What is this?' },
+      { type: 'image_url', image_url: { url: IMAGE_URL } },
+    ]);
+  });
+});
+
+describe('AnthropicProvider', () => {
+  const server = new MockServer();
+  before(() => server.listen());
+  after(() => server.close());
+
+  const provider = () =>
+    new AnthropicProvider({ apiKey: 'test', baseURL: server.url });
+
+  server.reply = () => ({
+    body: JSON.stringify({
+      id: 'msg_1',
+      type: 'message',
+      role: 'assistant',
+      model: 'test-model',
+      stop_reason: 'tool_use',
+      stop_sequence: null,
+      content: [
+        { type: 'text', text: 'One more.' },
+        {
+          type: 'tool_use',
+          id: 'toolu_1',
+          name: 'weather',
+          input: { city: 'Tromsø' },
+        },
+      ],
+      usage: {
+        input_tokens: 20,
+        output_tokens: 8,
+        cache_read_input_tokens: 5,
+      },
+    }),
+  });
+
+  it('turns tool calls into tool_use blocks and merges consecutive results', async () => {
+    await provider().complete(request(TOOL_CONVERSATION));
+
+    const body = server.lastBody;
+    assert.equal(server.requests[0].path, '/v1/messages');
+    assert.equal(body.system, 'Be brief.');
+    assert.deepEqual(body.messages, [
+      {
+        role: 'user',
+        content: [{ type: 'text', text: 'Weather in Oslo and Bergen?' }],
+      },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Checking.' },
+          {
+            type: 'tool_use',
+            id: 'call_1',
+            name: 'weather',
+            input: { city: 'Oslo' },
+          },
+          {
+            type: 'tool_use',
+            id: 'call_2',
+            name: 'weather',
+            input: { city: 'Bergen' },
+          },
+        ],
+      },
+      {
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: 'call_1', content: 'Sunny' },
+          { type: 'tool_result', tool_use_id: 'call_2', content: 'Rain' },
+        ],
+      },
+    ]);
+  });
+
+  it('reads tool_use blocks back as tool calls', async () => {
+    const result = await provider().complete(request(TOOL_CONVERSATION));
+
+    assert.equal(result.content, 'One more.');
+    assert.deepEqual(result.toolCalls, [
+      {
+        id: 'toolu_1',
+        type: 'function',
+        function: { name: 'weather', arguments: '{"city":"Tromsø"}' },
+      },
+    ]);
+    // Cached prompt tokens count towards the prompt
+    assert.deepEqual(result.usage, {
+      promptTokens: 25,
+      completionTokens: 8,
+      totalTokens: 33,
+    });
+  });
+
+  it('sends images as base64 image blocks', async () => {
+    await provider().complete(request(IMAGE_CONVERSATION));
+
+    assert.deepEqual(server.lastBody.messages[0].content, [
+      { type: 'text', text: 'What is this?' },
+      {
+        type: 'image',
+        source: { type: 'base64', media_type: 'image/png', data: IMAGE_DATA },
+      },
+    ]);
+  });
+});
+
+describe('OllamaProvider', () => {
+  const server = new MockServer();
+  before(() => server.listen());
+  after(() => server.close());
+
+  const provider = () => new OllamaProvider({ baseURL: server.url });
+
+  const TOOL_CALL_CHUNK = {
+    message: {
+      role: 'assistant',
+      content: '',
+      tool_calls: [
+        { function: { name: 'weather', arguments: { city: 'Tromsø' } } },
+      ],
+    },
+  };
+
+  it('sends parsed arguments and matches results to tools by name', async () => {
+    server.reply = () => ({
+      body: JSON.stringify({ message: { content: 'Done' }, done: true }),
+    });
+    await provider().complete(request(TOOL_CONVERSATION));
+
+    const { messages } = server.lastBody;
+    assert.equal(server.requests[0].path, '/api/chat');
+    assert.deepEqual(messages[2].tool_calls, [
+      { function: { name: 'weather', arguments: { city: 'Oslo' } } },
+      { function: { name: 'weather', arguments: { city: 'Bergen' } } },
+    ]);
+    assert.deepEqual(messages.slice(3), [
+      { role: 'tool', content: 'Sunny', tool_name: 'weather' },
+      { role: 'tool', content: 'Rain', tool_name: 'weather' },
+    ]);
+  });
+
+  it('parses tool calls from a response', async () => {
+    server.reply = () => ({
+      body: JSON.stringify({
+        ...TOOL_CALL_CHUNK,
+        done: true,
+        prompt_eval_count: 9,
+        eval_count: 4,
+      }),
+    });
+    const result = await provider().complete(request(TOOL_CONVERSATION));
+
+    assert.equal(result.toolCalls.length, 1);
+    assert.match(result.toolCalls[0].id, /^call_/);
+    assert.deepEqual(result.toolCalls[0].function, {
+      name: 'weather',
+      arguments: '{"city":"Tromsø"}',
+    });
+    assert.deepEqual(result.usage, {
+      promptTokens: 9,
+      completionTokens: 4,
+      totalTokens: 13,
+    });
+  });
+
+  it('parses tool calls from a stream', async () => {
+    server.reply = () => ({
+      contentType: 'application/x-ndjson',
+      body:
+        [
+          { message: { content: 'Checking' } },
+          TOOL_CALL_CHUNK,
+          { message: { content: '' }, done: true },
+        ]
+          .map((chunk) => JSON.stringify(chunk))
+          .join('\n') + '\n',
+    });
+    const tokens: string[] = [];
+    const result = await provider().complete(
+      request(TOOL_CONVERSATION, {
+        stream: true,
+        onToken: (token) => tokens.push(token),
+      })
+    );
+
+    assert.deepEqual(tokens, ['Checking']);
+    assert.equal(result.content, 'Checking');
+    assert.equal(result.toolCalls[0].function.name, 'weather');
+  });
+
+  it('sends images as base64 without the data URL prefix', async () => {
+    server.reply = () => ({ body: JSON.stringify({ done: true }) });
+    await provider().complete(request(IMAGE_CONVERSATION));
+
+    assert.deepEqual(server.lastBody.messages[0], {
+      role: 'user',
+      content: 'What is this?',
+      images: [IMAGE_DATA],
+    });
+  });
+});
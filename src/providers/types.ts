@@ -0,0 +1,73 @@
+import type OpenAI from 'openai';
+import type { Message } from '../openai.js';
+import type { ProviderName, ReasoningEffort } from '../schemas/config.js';
+
+export type TokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // Part of completionTokens spent on hidden reasoning
+  reasoningTokens?: number;
+  // USD at the model registry's prices; providers leave it to OpenAIClient
+  cost?: number;
+};
+
+// Tools and tool calls use the chat completions format throughout the app;
+// each provider translates them to and from its own wire format
+export type ToolDefinition = OpenAI.ChatCompletionTool;
+
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+// A JSON Schema the answer must follow
+export interface ResponseFormat {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface CompletionRequest {
+  model: string;
+  // Includes the system prompt as the first message
+  messages: Message[];
+  tools?: ToolDefinition[];
+  maxTokens: number;
+  temperature: number;
+  stream: boolean;
+  // false for servers that reject a request for usage at the end of a stream
+  streamUsage?: boolean;
+  onToken?: (token: string) => void;
+  // Set for reasoning models; providers without reasoning controls ignore it
+  reasoning?: { effort?: ReasoningEffort };
+  // Streamed reasoning text, for backends that return it
+  onReasoning?: (token: string) => void;
+  // Only sent when supportsResponseFormat(model) is true
+  responseFormat?: ResponseFormat;
+  signal?: AbortSignal;
+}
+
+export interface CompletionResult {
+  content: string;
+  toolCalls: ToolCall[];
+  reasoning?: string;
+  // Left out when the backend doesn't report it
+  usage?: TokenUsage;
+}
+
+/**
+ * One model backend. Providers only talk to the API; running tools and
+ * looping on tool calls stays in OpenAIClient.
+ */
+export interface LLMProvider {
+  readonly name: ProviderName;
+  // Used in error messages, e.g. "Anthropic API error: ..."
+  readonly label: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  // Whether the backend can constrain this model's output to a JSON Schema
+  supportsResponseFormat?(model: string): boolean;
+}
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+const BatchEntryObjectSchema = z.object({
+  id: z.string().optional(),
+  prompt: z.string().min(1, 'prompt is required'),
+  mode: z.enum(['chat', 'agent']).optional(),
+  model: z.string().optional(),
+  // Tool allowlist for this entry; every tool when omitted
+  tools: z.array(z.string()).optional(),
+});
+
+// An entry is either a bare prompt string or an object with overrides
+export const BatchEntrySchema = z.union([
+  z.string().min(1).transform((prompt) => ({ prompt })),
+  BatchEntryObjectSchema,
+]);
+
+export type BatchEntry = z.infer<typeof BatchEntryObjectSchema>;
@@ -7,22 +7,124 @@ const MCPServerSchema = z.object({
   env: z.record(z.string()).optional(),
 });
 
+export const PROVIDER_NAMES = ['openai', 'anthropic', 'ollama'] as const;
+
+// Backoff for rate limits, server errors and dropped streams
+const RetrySchema = z.object({
+  maxRetries: z.number().int().min(0).default(3),
+  initialDelayMs: z.number().int().positive().default(1000),
+  maxDelayMs: z.number().int().positive().default(30000),
+});
+
+export const REASONING_EFFORTS = ['low', 'medium', 'high'] as const;
+
+// Reasoning models (o-series, gpt-5) take max_completion_tokens and no temperature
+const ReasoningSchema = z.object({
+  // Taken from the model registry when unset
+  enabled: z.boolean().optional(),
+  effort: z.enum(REASONING_EFFORTS).optional(),
+});
+
+// Facts about a model, merged over its built-in registry entry
+const ModelInfoSchema = z.object({
+  contextWindow: z.number().int().positive().optional(),
+  maxOutputTokens: z.number().int().positive().optional(),
+  // USD per million tokens
+  pricing: z.object({
+    input: z.number().min(0),
+    output: z.number().min(0),
+  }).optional(),
+  capabilities: z.object({
+    tools: z.boolean().optional(),
+    vision: z.boolean().optional(),
+    streamingUsage: z.boolean().optional(),
+    reasoning: z.boolean().optional(),
+  }).optional(),
+});
+
+// A named model setup; unset fields fall back to the top-level config
+const ProfileSchema = z.object({
+  provider: z.enum(PROVIDER_NAMES).optional(),
+  model: z.string().min(1, 'Profile model is required'),
+  baseURL: z.string().url().optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().positive().optional(),
+  contextWindow: z.number().int().positive().optional(),
+  retry: RetrySchema.partial().optional(),
+  reasoning: ReasoningSchema.optional(),
+});
+
 export const ConfigSchema = z.object({
+  // Backend that serves the model; openai also covers compatible servers via baseURL
+  provider: z.enum(PROVIDER_NAMES).default('openai'),
   openai: z.object({
-    apiKey: z.string().min(1, 'OpenAI API key is required'),
+    apiKey: z.string().optional(),
+    // The model sent to whichever provider is active
     model: z.string().default('gpt-4o'),
     baseURL: z.string().url().optional(),
-  }),
+  }).default({}),
+  anthropic: z.object({
+    apiKey: z.string().min(1, 'Anthropic API key is required'),
+    baseURL: z.string().url().optional(),
+  }).optional(),
+  ollama: z.object({
+    baseURL: z.string().url().optional(),
+  }).optional(),
   serper: z.object({
     apiKey: z.string().min(1, 'Serper API key is required'),
   }),
   todoist: z.object({
     apiKey: z.string().min(1, 'Todoist API key is required'),
   }).optional(),
+  profiles: z.record(ProfileSchema).optional(),
+  // Keyed by model name; adds models the registry doesn't know or corrects it
+  models: z.record(ModelInfoSchema).optional(),
+  // Profile applied at startup; /model switches it at runtime
+  profile: z.string().optional(),
+  retry: RetrySchema.default({}),
+  reasoning: ReasoningSchema.default({}),
   maxTokens: z.number().positive().default(4000),
   temperature: z.number().min(0).max(2).default(0.7),
   mcpServers: z.record(MCPServerSchema).optional().default({}),
+  // Only offer these tools to the model; all tools when unset
+  tools: z.array(z.string()).optional(),
+  // Tool calls from one response that may run at the same time
+  toolConcurrency: z.number().int().positive().default(4),
+  sessions: z.object({
+    // 'project' keeps sessions in .jecko/sessions at the project (git) root
+    store: z.enum(['global', 'project']).default('global'),
+  }).optional(),
+}).superRefine((config, ctx) => {
+  if (config.profile && !config.profiles?.[config.profile]) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['profile'],
+      message: `Unknown profile "${config.profile}"`,
+    });
+  }
+  // The startup profile may pick a different provider than the top level
+  const provider =
+    (config.profile && config.profiles?.[config.profile]?.provider) ||
+    config.provider;
+  if (provider === 'openai' && !config.openai.apiKey) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['openai', 'apiKey'],
+      message: 'OpenAI API key is required',
+    });
+  }
+  if (provider === 'anthropic' && !config.anthropic) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['anthropic'],
+      message: 'Anthropic settings are required when provider is anthropic',
+    });
+  }
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
+export type ProviderName = (typeof PROVIDER_NAMES)[number];
+export type Profile = z.infer<typeof ProfileSchema>;
+export type ModelInfoOverride = z.infer<typeof ModelInfoSchema>;
+export type ReasoningEffort = (typeof REASONING_EFFORTS)[number];
 export type MCPServer = z.infer<typeof MCPServerSchema>;
@@ -0,0 +1,65 @@
+import { z } from 'zod';
+
+// Loose shapes of the foreign formats `jecko import` understands. Unknown
+// fields are ignored so newer exports keep loading.
+
+const ContentPartSchema = z
+  .object({
+    type: z.string().optional(),
+    text: z.string().optional(),
+  })
+  .passthrough();
+
+// OpenAI chat-completions messages; Jecko's messages.json is a superset
+export const ChatCompletionMessageSchema = z
+  .object({
+    id: z.string().optional(),
+    role: z.string(),
+    content: z
+      .union([z.string(), z.array(z.union([z.string(), ContentPartSchema]))])
+      .nullable()
+      .optional(),
+    timestamp: z.number().optional(),
+    tool_calls: z.array(z.any()).optional(),
+    tool_call_id: z.string().optional(),
+    isInternal: z.boolean().optional(),
+    displayContent: z.string().optional(),
+    mode: z.enum(['CHAT', 'AGENT']).optional(),
+  })
+  .passthrough();
+
+const ChatGPTNodeSchema = z.object({
+  parent: z.string().nullable().optional(),
+  children: z.array(z.string()).optional(),
+  message: z
+    .object({
+      author: z.object({ role: z.string() }).passthrough(),
+      create_time: z.number().nullable().optional(),
+      recipient: z.string().optional(),
+      content: z
+        .object({
+          content_type: z.string(),
+          parts: z.array(z.any()).optional(),
+          text: z.string().optional(),
+        })
+        .passthrough(),
+      metadata: z.record(z.any()).optional(),
+    })
+    .passthrough()
+    .nullable()
+    .optional(),
+});
+
+// One conversation from ChatGPT's conversations.json data export
+export const ChatGPTConversationSchema = z
+  .object({
+    title: z.string().nullable().optional(),
+    create_time: z.number().nullable().optional(),
+    current_node: z.string().nullable().optional(),
+    default_model_slug: z.string().nullable().optional(),
+    mapping: z.record(ChatGPTNodeSchema),
+  })
+  .passthrough();
+
+export type ChatCompletionMessage = z.infer<typeof ChatCompletionMessageSchema>;
+export type ChatGPTConversation = z.infer<typeof ChatGPTConversationSchema>;
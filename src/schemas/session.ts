@@ -0,0 +1,158 @@
+import { z } from 'zod';
+
+// Bump whenever the on-disk record layout changes. Older versions must stay
+// loadable, see SessionStore.replay.
+// v1: a single flat conversation
+// v2: a tree of branches sharing message records
+export const SESSION_FORMAT_VERSION = 2;
+
+const ModeSchema = z.enum(['CHAT', 'AGENT']);
+
+const TokenUsageSchema = z.object({
+  promptTokens: z.number(),
+  completionTokens: z.number(),
+  totalTokens: z.number(),
+  reasoningTokens: z.number().optional(),
+  cost: z.number().optional(),
+});
+
+// Text, or text and image parts for messages with attachments. Images are
+// stored inline as data URLs so a session doesn't depend on the files.
+const MessageContentSchema = z.union([
+  z.string(),
+  z.array(
+    z.discriminatedUnion('type', [
+      z.object({ type: z.literal('text'), text: z.string() }),
+      z.object({
+        type: z.literal('image_url'),
+        image_url: z.object({ url: z.string() }),
+        name: z.string().optional(),
+      }),
+    ])
+  ),
+]);
+
+export const SessionMessageSchema = z.object({
+  id: z.string(),
+  role: z.enum(['user', 'assistant', 'tool', 'system']),
+  content: MessageContentSchema,
+  timestamp: z.number(),
+  toolName: z.string().optional(),
+  toolArgs: z.any().optional(),
+  tool_call_id: z.string().optional(),
+  tool_calls: z.array(z.any()).optional(),
+  isInternal: z.boolean().optional(),
+  displayContent: z.string().optional(),
+  reasoning: z.string().optional(),
+  usage: TokenUsageSchema.optional(),
+  mode: ModeSchema.optional(),
+});
+
+const HeaderRecordSchema = z.object({
+  type: z.literal('header'),
+  version: z.number().int().positive(),
+  id: z.string(),
+  createdAt: z.number(),
+  cwd: z.string(),
+  gitRoot: z.string().optional(),
+  model: z.string(),
+  mode: ModeSchema,
+});
+
+// Upserts a message by id. New ids are appended to `branchId` (v2) or to
+// the only conversation (v1).
+const MessageRecordSchema = z.object({
+  type: z.literal('message'),
+  at: z.number(),
+  message: SessionMessageSchema,
+  branchId: z.string().optional(),
+});
+
+// v1 only: replaces the conversation order, e.g. after compaction
+const ResetRecordSchema = z.object({
+  type: z.literal('reset'),
+  at: z.number(),
+  messageIds: z.array(z.string()),
+});
+
+// v2: upserts a branch with its full message order
+const BranchRecordSchema = z.object({
+  type: z.literal('branch'),
+  at: z.number(),
+  id: z.string(),
+  name: z.string(),
+  parentBranchId: z.string().optional(),
+  forkMessageId: z.string().optional(),
+  createdAt: z.number(),
+  messageIds: z.array(z.string()),
+});
+
+// v2: switches the active branch
+const CheckoutRecordSchema = z.object({
+  type: z.literal('checkout'),
+  at: z.number(),
+  branchId: z.string(),
+});
+
+const ModeRecordSchema = z.object({
+  type: z.literal('mode'),
+  at: z.number(),
+  mode: ModeSchema,
+});
+
+const ModelRecordSchema = z.object({
+  type: z.literal('model'),
+  at: z.number(),
+  model: z.string(),
+});
+
+// Upserts session metadata; fields left out keep their previous value
+const MetaRecordSchema = z.object({
+  type: z.literal('meta'),
+  at: z.number(),
+  title: z.string().optional(),
+  summary: z.string().optional(),
+});
+
+const UsageRecordSchema = z.object({
+  type: z.literal('usage'),
+  at: z.number(),
+  usage: TokenUsageSchema,
+});
+
+// Starts a group of API calls: a user turn, a compaction or session naming
+const TurnRecordSchema = z.object({
+  type: z.literal('turn'),
+  at: z.number(),
+  kind: z.enum(['CHAT', 'AGENT', 'compaction', 'title']),
+});
+
+// One API call of the latest turn (or of `turn`); the session's spend is the
+// sum of these
+const CallRecordSchema = z.object({
+  type: z.literal('call'),
+  at: z.number(),
+  model: z.string(),
+  usage: TokenUsageSchema,
+  // Index of the turn when a later one was started meanwhile
+  turn: z.number().int().nonnegative().optional(),
+});
+
+export const SessionRecordSchema = z.discriminatedUnion('type', [
+  HeaderRecordSchema,
+  MessageRecordSchema,
+  ResetRecordSchema,
+  BranchRecordSchema,
+  CheckoutRecordSchema,
+  ModeRecordSchema,
+  ModelRecordSchema,
+  UsageRecordSchema,
+  TurnRecordSchema,
+  CallRecordSchema,
+  MetaRecordSchema,
+]);
+
+export type SessionMessage = z.infer<typeof SessionMessageSchema>;
+export type SessionHeader = z.infer<typeof HeaderRecordSchema>;
+export type SessionBranchRecord = z.infer<typeof BranchRecordSchema>;
+export type SessionRecord = z.infer<typeof SessionRecordSchema>;
@@ -0,0 +1,331 @@
+import { Marked } from 'marked';
+import { formatToolCallDisplay } from '../utils/toolInfra.js';
+import { findBuiltInTool } from '../tools/index.js';
+import type { SessionMessage } from '../schemas/session.js';
+import { deriveTitle } from './sessionStore.js';
+import { describeContent } from '../utils/messageContent.js';
+import { formatCost } from '../models.js';
+import type { TokenUsage } from '../store/slices/usageSlice.js';
+
+export const EXPORT_FORMATS = ['md', 'html', 'json'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export type ExportableMessage = Pick<
+  SessionMessage,
+  'role' | 'content' | 'timestamp'
+> &
+  Partial<
+    Pick<
+      SessionMessage,
+      'tool_calls' | 'tool_call_id' | 'isInternal' | 'displayContent'
+    >
+  >;
+
+export interface ExportedToolCall {
+  id: string;
+  name: string;
+  arguments: unknown;
+  summary: string;
+  result?: string;
+}
+
+export interface ExportedTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: number;
+  toolCalls: ExportedToolCall[];
+}
+
+export interface ConversationExport {
+  title: string;
+  sessionId: string | null;
+  model: string;
+  exportedAt: number;
+  usage?: TokenUsage; // Whole session, when its API calls were recorded
+  turns: ExportedTurn[];
+}
+
+const parseArguments = (raw: unknown): unknown => {
+  if (typeof raw !== 'string') {
+    return raw ?? {};
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+};
+
+/**
+ * Folds the raw chat history into user/assistant turns. Tool results are
+ * attached to the tool call that produced them and internal continuation
+ * prompts are dropped.
+ */
+export function buildConversationExport(
+  messages: ExportableMessage[],
+  meta: {
+    sessionId: string | null;
+    model: string;
+    title?: string;
+    usage?: TokenUsage;
+  }
+): ConversationExport {
+  const turns: ExportedTurn[] = [];
+  const toolCallsById = new Map<string, ExportedToolCall>();
+
+  for (const message of messages) {
+    if (message.isInternal || message.role === 'system') {
+      continue;
+    }
+
+    if (message.role === 'tool') {
+      const toolCall = message.tool_call_id
+        ? toolCallsById.get(message.tool_call_id)
+        : undefined;
+      if (toolCall) {
+        toolCall.result = describeContent(message.content);
+        if (message.displayContent) {
+          toolCall.summary = message.displayContent;
+        }
+        continue;
+      }
+
+      // Result without a recorded call, e.g. from an agent run
+      const orphan: ExportedToolCall = {
+        id: message.tool_call_id ?? '',
+        name: 'tool',
+        arguments: {},
+        summary: message.displayContent || '🔧 Tool result',
+        result: describeContent(message.content),
+      };
+      const lastTurn = turns[turns.length - 1];
+      if (lastTurn?.role === 'assistant') {
+        lastTurn.toolCalls.push(orphan);
+      } else {
+        turns.push({
+          role: 'assistant',
+          content: '',
+          timestamp: message.timestamp,
+          toolCalls: [orphan],
+        });
+      }
+      continue;
+    }
+
+    const toolCalls: ExportedToolCall[] = (message.tool_calls ?? []).map(
+      (toolCall: any) => {
+        const name = toolCall.function?.name ?? 'tool';
+        const args = parseArguments(toolCall.function?.arguments);
+        const exported: ExportedToolCall = {
+          id: toolCall.id,
+          name,
+          arguments: args,
+          summary: formatToolCallDisplay(name, args, findBuiltInTool(name)),
+        };
+        toolCallsById.set(toolCall.id, exported);
+        return exported;
+      }
+    );
+
+    const content = describeContent(message.content);
+    if (!content.trim() && toolCalls.length === 0) {
+      continue;
+    }
+
+    turns.push({
+      role: message.role,
+      content,
+      timestamp: message.timestamp,
+      toolCalls,
+    });
+  }
+
+  return {
+    title: meta.title ?? deriveTitle(messages as SessionMessage[]),
+    sessionId: meta.sessionId,
+    model: meta.model,
+    exportedAt: Date.now(),
+    usage: meta.usage,
+    turns,
+  };
+}
+
+export function renderExport(
+  format: ExportFormat,
+  conversation: ConversationExport
+): string {
+  switch (format) {
+    case 'md':
+      return renderMarkdown(conversation);
+    case 'html':
+      return renderHtml(conversation);
+    case 'json':
+      return JSON.stringify(conversation, null, 2) + '\n';
+  }
+}
+
+const formatTimestamp = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString('en-US');
+
+const formatArguments = (args: unknown): string =>
+  typeof args === 'string' ? args : JSON.stringify(args, null, 2);
+
+const describeUsage = (usage: TokenUsage | undefined): string =>
+  usage
+    ? ` • ${usage.totalTokens.toLocaleString('en-US')} tokens${
+        usage.cost !== undefined ? `, ${formatCost(usage.cost)}` : ''
+      }`
+    : '';
+
+const roleLabel = (role: ExportedTurn['role']): string =>
+  role === 'user' ? '🧑 You' : '🤖 Assistant';
+
+// Long enough fence that tool output containing ``` can't close it early
+const fence = (text: string): string => {
+  const longestRun = Math.max(
+    2,
+    ...(text.match(/`+/g) ?? []).map((run) => run.length)
+  );
+  return '`'.repeat(longestRun + 1);
+};
+
+function renderMarkdown(conversation: ConversationExport): string {
+  const lines: string[] = [`# ${conversation.title}`, ''];
+  lines.push(
+    `_Exported ${formatTimestamp(conversation.exportedAt)} • model ${conversation.model}${
+      conversation.sessionId ? ` • session ${conversation.sessionId}` : ''
+    }${describeUsage(conversation.usage)}_`,
+    ''
+  );
+
+  for (const turn of conversation.turns) {
+    lines.push(`## ${roleLabel(turn.role)}`, '');
+    if (turn.content.trim()) {
+      lines.push(turn.content.trim(), '');
+    }
+
+    for (const toolCall of turn.toolCalls) {
+      const args = formatArguments(toolCall.arguments);
+      lines.push(
+        '<details>',
+        `<summary>${escapeHtml(toolCall.summary)}</summary>`,
+        '',
+        `**${toolCall.name}** arguments:`,
+        '',
+        `${fence(args)}json`,
+        args,
+        fence(args),
+        ''
+      );
+      if (toolCall.result !== undefined) {
+        lines.push(
+          'Result:',
+          '',
+          fence(toolCall.result),
+          toolCall.result,
+          fence(toolCall.result),
+          ''
+        );
+      }
+      lines.push('</details>', '');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// javascript: and other schemes in model output must not become clickable
+const SAFE_LINK_URL = /^(https?:|mailto:)/i;
+const SAFE_IMAGE_URL = /^(https?:|data:image\/)/i;
+
+// A private instance; the shared `marked` is configured for the terminal
+const htmlMarked = new Marked({
+  renderer: {
+    // Raw HTML in model output is shown as text, never executed
+    html: ({ text }) => escapeHtml(text),
+    // Returning false falls back to the default renderer
+    link(token) {
+      return SAFE_LINK_URL.test(token.href.trim())
+        ? false
+        : this.parser.parseInline(token.tokens);
+    },
+    image: ({ href, text }) =>
+      SAFE_IMAGE_URL.test(href.trim()) ? false : escapeHtml(text),
+  },
+});
+
+const HTML_STYLES = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; line-height: 1.5; }
+header { border-bottom: 1px solid #d0d7de; margin-bottom: 1.5rem; }
+header p { color: #656d76; font-size: 0.9rem; }
+.turn { border-radius: 8px; padding: 0.75rem 1rem; margin-bottom: 1rem; }
+.turn.user { background: #ddf4ff; }
+.turn.assistant { background: #f6f8fa; }
+.role { font-weight: 600; font-size: 0.85rem; color: #656d76; margin-bottom: 0.25rem; }
+.time { font-weight: normal; margin-left: 0.5rem; }
+.user .content { white-space: pre-wrap; }
+pre { background: #fff; border: 1px solid #d0d7de; border-radius: 6px; padding: 0.75rem; overflow-x: auto; }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.85rem; }
+details { margin: 0.5rem 0; }
+summary { cursor: pointer; color: #0969da; }
+`;
+
+function renderHtml(conversation: ConversationExport): string {
+  const turns = conversation.turns
+    .map((turn) => {
+      const content = turn.content.trim()
+        ? turn.role === 'user'
+          ? `<div class="content">${escapeHtml(turn.content.trim())}</div>`
+          : `<div class="content">${htmlMarked.parse(turn.content, { async: false })}</div>`
+        : '';
+      const toolCalls = turn.toolCalls
+        .map(
+          (toolCall) => `<details>
+<summary>${escapeHtml(toolCall.summary)}</summary>
+<p><strong>${escapeHtml(toolCall.name)}</strong> arguments:</p>
+<pre><code>${escapeHtml(formatArguments(toolCall.arguments))}</code></pre>${
+            toolCall.result !== undefined
+              ? `\n<p>Result:</p>\n<pre><code>${escapeHtml(toolCall.result)}</code></pre>`
+              : ''
+          }
+</details>`
+        )
+        .join('\n');
+
+      return `<section class="turn ${turn.role}">
+<div class="role">${roleLabel(turn.role)}<span class="time">${formatTimestamp(turn.timestamp)}</span></div>
+${content}
+${toolCalls}
+</section>`;
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(conversation.title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(conversation.title)}</h1>
+<p>Exported ${formatTimestamp(conversation.exportedAt)} • model ${escapeHtml(conversation.model)}${
+    conversation.sessionId
+      ? ` • session ${escapeHtml(conversation.sessionId)}`
+      : ''
+  }${escapeHtml(describeUsage(conversation.usage))}</p>
+</header>
+${turns}
+</body>
+</html>
+`;
+}
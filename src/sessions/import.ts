@@ -0,0 +1,271 @@
+import { readFileSync } from 'fs';
+import { nanoid } from '@reduxjs/toolkit';
+import {
+  ChatCompletionMessageSchema,
+  ChatGPTConversationSchema,
+  type ChatCompletionMessage,
+  type ChatGPTConversation,
+} from '../schemas/import.js';
+import type { SessionMessage } from '../schemas/session.js';
+import { MAIN_BRANCH_ID } from '../store/slices/chatSlice.js';
+import { SessionStore, deriveTitle } from './sessionStore.js';
+import { findGitRoot } from './project.js';
+import { sanitizeToolPairing } from '../utils/toolPairing.js';
+import {
+  getTextContent,
+  type ContentPart,
+  type MessageContent,
+} from '../utils/messageContent.js';
+
+export type ImportFormat = 'chatgpt' | 'openai' | 'jecko';
+
+export interface ImportedConversation {
+  title?: string;
+  createdAt: number;
+  model?: string;
+  messages: SessionMessage[];
+  droppedMessages: number;
+}
+
+export interface ImportResult {
+  id: string;
+  title: string;
+  messageCount: number;
+  droppedMessages: number;
+}
+
+// Inline (data URL) images are kept; linked ones can't be sent to every provider
+const toMessageContent = (
+  content: ChatCompletionMessage['content']
+): MessageContent => {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (!content) {
+    return '';
+  }
+  const parts = content.flatMap((part): ContentPart[] => {
+    if (typeof part === 'string') {
+      return [{ type: 'text', text: part }];
+    }
+    const image = part.image_url as { url?: unknown } | undefined;
+    if (typeof image?.url === 'string' && image.url.startsWith('data:')) {
+      const name = typeof part.name === 'string' ? part.name : undefined;
+      return [{ type: 'image_url', image_url: { url: image.url }, name }];
+    }
+    return part.text ? [{ type: 'text', text: part.text }] : [];
+  });
+  return parts.some((part) => part.type === 'image_url')
+    ? parts
+    : getTextContent(parts);
+};
+
+const SESSION_ROLES = ['user', 'assistant', 'tool'] as const;
+
+function fromChatCompletionMessages(
+  rawMessages: ChatCompletionMessage[],
+  fallbackTime: number
+): ImportedConversation {
+  const messages: SessionMessage[] = [];
+  let dropped = 0;
+
+  rawMessages.forEach((raw, index) => {
+    // The client adds its own system prompt; legacy `function` roles have no equivalent
+    const role = raw.role as SessionMessage['role'];
+    if (!(SESSION_ROLES as readonly string[]).includes(role)) {
+      dropped++;
+      return;
+    }
+
+    messages.push({
+      id: raw.id ?? nanoid(),
+      role,
+      content: toMessageContent(raw.content),
+      timestamp: raw.timestamp ?? fallbackTime + index,
+      tool_calls: raw.tool_calls,
+      tool_call_id: raw.tool_call_id,
+      isInternal: raw.isInternal,
+      displayContent: raw.displayContent,
+      mode: raw.mode,
+    });
+  });
+
+  const sanitized = sanitizeToolPairing(messages);
+  return {
+    createdAt: messages[0]?.timestamp ?? fallbackTime,
+    messages: sanitized.messages,
+    droppedMessages: dropped + sanitized.dropped,
+  };
+}
+
+function fromChatGPTConversation(
+  conversation: ChatGPTConversation
+): ImportedConversation {
+  const createdAt = (conversation.create_time ?? Date.now() / 1000) * 1000;
+
+  // The mapping is a tree of edits and regenerations; follow the visible path
+  const path: string[] = [];
+  let nodeId =
+    conversation.current_node ??
+    Object.keys(conversation.mapping).find(
+      (id) => !conversation.mapping[id].children?.length
+    );
+  const visited = new Set<string>();
+  while (nodeId && conversation.mapping[nodeId] && !visited.has(nodeId)) {
+    visited.add(nodeId);
+    path.unshift(nodeId);
+    nodeId = conversation.mapping[nodeId].parent ?? undefined;
+  }
+
+  const messages: SessionMessage[] = [];
+  let dropped = 0;
+  for (const id of path) {
+    const message = conversation.mapping[id].message;
+    if (!message) {
+      continue;
+    }
+
+    const role = message.author.role;
+    const hidden = message.metadata?.is_visually_hidden_from_conversation;
+    // Browsing and code tool traffic has no OpenAI tool call ids to pair with
+    const addressedToTool = message.recipient && message.recipient !== 'all';
+    if ((role !== 'user' && role !== 'assistant') || hidden || addressedToTool) {
+      if (role !== 'system' && !hidden) {
+        dropped++;
+      }
+      continue;
+    }
+
+    const content =
+      message.content.parts
+        ?.filter((part): part is string => typeof part === 'string')
+        .join('\n') ??
+      message.content.text ??
+      '';
+    if (!content.trim()) {
+      continue;
+    }
+
+    messages.push({
+      id,
+      role,
+      content,
+      timestamp: message.create_time ? message.create_time * 1000 : createdAt,
+    });
+  }
+
+  return {
+    title: conversation.title ?? undefined,
+    createdAt,
+    model: conversation.default_model_slug ?? undefined,
+    messages,
+    droppedMessages: dropped,
+  };
+}
+
+/**
+ * Detects the export format and converts every conversation in it
+ */
+export function parseImport(data: unknown, fallbackTime = Date.now()): {
+  format: ImportFormat;
+  conversations: ImportedConversation[];
+} {
+  const isChatGPT = (value: unknown) =>
+    typeof value === 'object' && value !== null && 'mapping' in value;
+
+  if (Array.isArray(data) && data.length > 0 && data.every(isChatGPT)) {
+    return {
+      format: 'chatgpt',
+      conversations: data.map((conversation) =>
+        fromChatGPTConversation(ChatGPTConversationSchema.parse(conversation))
+      ),
+    };
+  }
+  if (isChatGPT(data)) {
+    return {
+      format: 'chatgpt',
+      conversations: [
+        fromChatGPTConversation(ChatGPTConversationSchema.parse(data)),
+      ],
+    };
+  }
+
+  const rawMessages =
+    typeof data === 'object' && data !== null && !Array.isArray(data)
+      ? (data as { messages?: unknown }).messages
+      : data;
+  const parsed = ChatCompletionMessageSchema.array().safeParse(rawMessages);
+  if (!parsed.success) {
+    throw new Error(
+      'Unrecognized file: expected a ChatGPT conversations.json, an array of chat messages or a Jecko messages.json'
+    );
+  }
+
+  // /debug dumps carry Jecko's own bookkeeping fields
+  const format: ImportFormat = parsed.data.every(
+    (message) => typeof message.timestamp === 'number' && message.id
+  )
+    ? 'jecko'
+    : 'openai';
+  return {
+    format,
+    conversations: [fromChatCompletionMessages(parsed.data, fallbackTime)],
+  };
+}
+
+/**
+ * Imports a file as one saved session per conversation
+ */
+export function importFile(
+  path: string,
+  sessionStore: SessionStore,
+  options: { cwd?: string; model?: string } = {}
+): { format: ImportFormat; results: ImportResult[]; skipped: number } {
+  const data = JSON.parse(readFileSync(path, 'utf8'));
+  const { format, conversations } = parseImport(data);
+
+  const cwd = options.cwd ?? process.cwd();
+  const results: ImportResult[] = [];
+  let skipped = 0;
+  for (const conversation of conversations) {
+    if (conversation.messages.length === 0) {
+      skipped++;
+      continue;
+    }
+
+    const id = SessionStore.createSessionId();
+    sessionStore.ensure({
+      id,
+      createdAt: conversation.createdAt,
+      cwd,
+      gitRoot: findGitRoot(cwd),
+      model: conversation.model ?? options.model ?? 'imported',
+      mode: 'CHAT',
+    });
+    sessionStore.append(
+      id,
+      ...conversation.messages.map((message) => ({
+        type: 'message' as const,
+        at: message.timestamp,
+        message,
+        branchId: MAIN_BRANCH_ID,
+      }))
+    );
+    if (conversation.title) {
+      sessionStore.append(id, {
+        type: 'meta',
+        at: conversation.createdAt,
+        title: conversation.title,
+      });
+    }
+
+    results.push({
+      id,
+      title: conversation.title || deriveTitle(conversation.messages),
+      messageCount: conversation.messages.length,
+      droppedMessages: conversation.droppedMessages,
+    });
+  }
+
+  return { format, results, skipped };
+}
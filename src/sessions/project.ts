@@ -0,0 +1,54 @@
+import { existsSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join, sep } from 'path';
+import type { Config } from '../schemas/config.js';
+
+export const DEFAULT_SESSION_DIRECTORY = join(homedir(), '.jecko', 'sessions');
+
+/**
+ * Nearest enclosing git repository root, if any
+ */
+export function findGitRoot(start: string): string | undefined {
+  let directory = start;
+  while (true) {
+    // `.git` is a file in worktrees and submodules
+    if (existsSync(join(directory, '.git'))) {
+      return directory;
+    }
+    const parent = dirname(directory);
+    if (parent === directory) {
+      return undefined;
+    }
+    directory = parent;
+  }
+}
+
+// A project is the enclosing git repository, or the directory itself outside one
+export function getProjectRoot(cwd: string = process.cwd()): string {
+  return findGitRoot(cwd) ?? cwd;
+}
+
+/**
+ * Whether a session was started in the given project. Sessions saved before
+ * git roots were recorded match when their directory lies inside the project.
+ */
+export function isSessionInProject(
+  session: { cwd: string; gitRoot?: string },
+  projectRoot: string
+): boolean {
+  if (session.gitRoot) {
+    return session.gitRoot === projectRoot;
+  }
+  return (
+    session.cwd === projectRoot || session.cwd.startsWith(projectRoot + sep)
+  );
+}
+
+export function getSessionDirectory(
+  config?: Config,
+  cwd: string = process.cwd()
+): string {
+  return config?.sessions?.store === 'project'
+    ? join(getProjectRoot(cwd), '.jecko', 'sessions')
+    : DEFAULT_SESSION_DIRECTORY;
+}
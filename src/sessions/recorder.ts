@@ -0,0 +1,350 @@
+import type { Middleware } from '@reduxjs/toolkit';
+import {
+  appendReasoningToLastMessage,
+  appendTokenToLastMessage,
+  type Branch,
+  type ChatState,
+} from '../store/slices/chatSlice.js';
+import type { SessionState } from '../store/slices/sessionSlice.js';
+import type { TurnUsage, UsageState } from '../store/slices/usageSlice.js';
+import { setSessionSaveError } from '../store/slices/uiSlice.js';
+import type { Message } from '../components/MessageList.js';
+import {
+  SessionMessageSchema,
+  type SessionMessage,
+  type SessionRecord,
+} from '../schemas/session.js';
+import { SessionStore, type SessionMode } from './sessionStore.js';
+import { findGitRoot } from './project.js';
+
+interface RecordedState {
+  chat: ChatState;
+  session: SessionState;
+  usage: UsageState;
+}
+
+/**
+ * Mirrors the Redux chat state into the session log. Only completed messages
+ * are written; a message is rewritten when its persisted form changes.
+ */
+export class SessionRecorder {
+  private sessionStore: SessionStore;
+  private sessionId: string | null = null;
+  private branchOrders = new Map<string, string[]>();
+  private branchMeta = new Map<string, string>();
+  private activeBranchId: string | null = null;
+  private seen = new Map<string, Message>();
+  private serialized = new Map<string, string>();
+  private mode: SessionMode | null = null;
+  private model: string | null = null;
+  private usage: string | null = null;
+  private callCounts: number[] = []; // Calls recorded for each turn
+  private meta: string | null = null;
+  private failed = false;
+
+  constructor(sessionStore: SessionStore) {
+    this.sessionStore = sessionStore;
+  }
+
+  getStore(): SessionStore {
+    return this.sessionStore;
+  }
+
+  /**
+   * Switches to another session directory; the current session is picked up
+   * again from there on the next sync
+   */
+  setStore(sessionStore: SessionStore): void {
+    this.sessionStore = sessionStore;
+    this.sessionId = null;
+  }
+
+  /**
+   * Writes what changed since the last sync. Throws when the session can't
+   * be saved; recording stops from then on.
+   */
+  sync(state: RecordedState): void {
+    const { session, chat, usage } = state;
+    if (!session.id || this.failed) {
+      return;
+    }
+
+    try {
+      if (session.id !== this.sessionId) {
+        this.attach(session.id);
+      }
+
+      const completed = getCompletedMessages(chat.messages);
+
+      // Don't create files for sessions that never got a message
+      if (completed.length === 0 && !this.sessionStore.exists(session.id)) {
+        return;
+      }
+
+      const created = this.sessionStore.ensure({
+        id: session.id,
+        createdAt: session.createdAt ?? Date.now(),
+        cwd: session.cwd,
+        gitRoot: findGitRoot(session.cwd),
+        model: session.model,
+        mode: chat.mode,
+      });
+      if (created) {
+        this.mode = chat.mode;
+        this.model = session.model;
+        this.activeBranchId = chat.activeBranchId;
+      }
+
+      const now = Date.now();
+      const records: SessionRecord[] = [];
+
+      for (const branch of Object.values(chat.branches)) {
+        const messages =
+          branch.id === chat.activeBranchId ? chat.messages : branch.messages;
+        records.push(...this.syncBranch(branch, messages, now));
+      }
+
+      if (chat.activeBranchId !== this.activeBranchId) {
+        this.activeBranchId = chat.activeBranchId;
+        records.push({ type: 'checkout', at: now, branchId: chat.activeBranchId });
+      }
+
+      if (chat.mode !== this.mode) {
+        this.mode = chat.mode;
+        records.push({ type: 'mode', at: now, mode: chat.mode });
+      }
+
+      if (session.model && session.model !== this.model) {
+        this.model = session.model;
+        records.push({ type: 'model', at: now, model: session.model });
+      }
+
+      const usageJson = usage.currentUsage && JSON.stringify(usage.currentUsage);
+      if (usageJson && usageJson !== this.usage) {
+        this.usage = usageJson;
+        records.push({ type: 'usage', at: now, usage: usage.currentUsage! });
+      }
+
+      records.push(...this.syncTurns(usage.turns));
+
+      if (session.title) {
+        const meta = JSON.stringify({
+          title: session.title,
+          summary: session.summary ?? undefined,
+        });
+        if (meta !== this.meta) {
+          this.meta = meta;
+          records.push({
+            type: 'meta',
+            at: now,
+            title: session.title,
+            summary: session.summary ?? undefined,
+          });
+        }
+      }
+
+      if (records.length > 0) {
+        this.sessionStore.append(session.id, ...records);
+      }
+    } catch (error) {
+      // Stop recording rather than failing every subsequent dispatch
+      this.failed = true;
+      throw error;
+    }
+  }
+
+  /**
+   * Records new or changed messages of a branch. Plain appends are written as
+   * message records tagged with the branch; anything else (a fork, compaction,
+   * a rename) rewrites the branch record with its full message order.
+   */
+  private syncBranch(
+    branch: Branch,
+    messages: Message[],
+    now: number
+  ): SessionRecord[] {
+    const completed = getCompletedMessages(messages);
+    const ids = completed.map((message) => message.id!);
+    const previous = this.branchOrders.get(branch.id);
+    const meta = JSON.stringify({
+      name: branch.name,
+      parentBranchId: branch.parentBranchId,
+      forkMessageId: branch.forkMessageId,
+    });
+    const isAppend =
+      previous !== undefined &&
+      this.branchMeta.get(branch.id) === meta &&
+      previous.every((id, index) => ids[index] === id);
+
+    const records: SessionRecord[] = [];
+    for (const message of completed) {
+      if (this.seen.get(message.id!) === message) {
+        continue;
+      }
+      this.seen.set(message.id!, message);
+
+      const persisted = toSessionMessage(message);
+      const json = JSON.stringify(persisted);
+      if (this.serialized.get(persisted.id) !== json) {
+        this.serialized.set(persisted.id, json);
+        records.push({
+          type: 'message',
+          at: now,
+          message: persisted,
+          ...(isAppend && { branchId: branch.id }),
+        });
+      }
+    }
+
+    if (!isAppend) {
+      records.push({
+        type: 'branch',
+        at: now,
+        id: branch.id,
+        name: branch.name,
+        parentBranchId: branch.parentBranchId,
+        forkMessageId: branch.forkMessageId,
+        createdAt: branch.createdAt,
+        messageIds: ids,
+      });
+    }
+
+    this.branchOrders.set(branch.id, ids);
+    this.branchMeta.set(branch.id, meta);
+    return records;
+  }
+
+  /**
+   * Records the turns and API calls added since the last sync. Spend is only
+   * ever appended; rewinding the conversation doesn't undo it.
+   */
+  private syncTurns(turns: TurnUsage[]): SessionRecord[] {
+    const records: SessionRecord[] = [];
+    turns.forEach((turn, index) => {
+      if (index >= this.callCounts.length) {
+        records.push({ type: 'turn', at: turn.startedAt, kind: turn.kind });
+        this.callCounts.push(0);
+      }
+      // Calls belong to the latest turn record unless they name their turn
+      const isLatest = index === this.callCounts.length - 1;
+      for (const { model, at, ...usage } of turn.calls.slice(
+        this.callCounts[index]
+      )) {
+        records.push({
+          type: 'call',
+          at,
+          model,
+          usage,
+          ...(!isLatest && { turn: index }),
+        });
+      }
+      this.callCounts[index] = turn.calls.length;
+    });
+    return records;
+  }
+
+  /**
+   * Starts tracking a session, picking up what is already on disk so that
+   * resumed sessions are not written out again
+   */
+  private attach(sessionId: string): void {
+    this.sessionId = sessionId;
+    this.branchOrders.clear();
+    this.branchMeta.clear();
+    this.activeBranchId = null;
+    this.seen.clear();
+    this.serialized.clear();
+    this.mode = null;
+    this.model = null;
+    this.usage = null;
+    this.callCounts = [];
+    this.meta = null;
+
+    if (!this.sessionStore.exists(sessionId)) {
+      return;
+    }
+
+    const stored = this.sessionStore.load(sessionId);
+    for (const branch of stored.branches) {
+      for (const message of branch.messages) {
+        this.serialized.set(message.id, JSON.stringify(message));
+      }
+      this.branchOrders.set(
+        branch.id,
+        branch.messages.map((message) => message.id)
+      );
+      this.branchMeta.set(
+        branch.id,
+        JSON.stringify({
+          name: branch.name,
+          parentBranchId: branch.parentBranchId,
+          forkMessageId: branch.forkMessageId,
+        })
+      );
+    }
+    this.activeBranchId = stored.activeBranchId;
+    this.mode = stored.mode;
+    this.model = stored.model;
+    this.usage = stored.usage && JSON.stringify(stored.usage);
+    this.callCounts = stored.turns.map((turn) => turn.calls.length);
+    this.meta =
+      stored.title !== undefined
+        ? JSON.stringify({ title: stored.title, summary: stored.summary })
+        : null;
+  }
+}
+
+function getCompletedMessages(messages: Message[]): Message[] {
+  const firstIncomplete = messages.findIndex((msg) => msg.isComplete === false);
+  const completed =
+    firstIncomplete === -1 ? messages : messages.slice(0, firstIncomplete);
+  return completed.filter((msg) => msg.id);
+}
+
+// Parsing normalizes key order so the result compares equal to a loaded message
+function toSessionMessage(message: Message): SessionMessage {
+  const { isStreaming, isComplete, ...rest } = message;
+  return SessionMessageSchema.parse({ ...rest, id: message.id! });
+}
+
+// Tokens stream into a message that isn't complete yet, so there's nothing to
+// write until the stream ends
+const STREAMING_ACTIONS = new Set<string>([
+  appendTokenToLastMessage.type,
+  appendReasoningToLastMessage.type,
+]);
+
+const changesRecordedState = (
+  before: RecordedState,
+  after: RecordedState
+): boolean =>
+  before.session !== after.session ||
+  before.usage !== after.usage ||
+  before.chat.messages !== after.chat.messages ||
+  before.chat.branches !== after.chat.branches ||
+  before.chat.activeBranchId !== after.chat.activeBranchId ||
+  before.chat.mode !== after.chat.mode;
+
+export const sessionRecorder = new SessionRecorder(new SessionStore());
+
+export const sessionMiddleware: Middleware<{}, RecordedState> =
+  (api) => (next) => (action) => {
+    const before = api.getState();
+    const result = next(action);
+    const after = api.getState();
+    const type = (action as { type?: string }).type ?? '';
+    if (STREAMING_ACTIONS.has(type) || !changesRecordedState(before, after)) {
+      return result;
+    }
+
+    try {
+      sessionRecorder.sync(after);
+    } catch (error) {
+      api.dispatch(
+        setSessionSaveError(
+          error instanceof Error ? error.message : String(error)
+        )
+      );
+    }
+    return result;
+  };
@@ -0,0 +1,58 @@
+import type { AppDispatch } from '../store/index.js';
+import { setBranches, setMessages, setMode } from '../store/slices/chatSlice.js';
+import {
+  clearActiveToolCalls,
+  setHighlightedMessageId,
+} from '../store/slices/uiSlice.js';
+import {
+  clearUsage,
+  setCurrentUsage,
+  setTurnUsage,
+} from '../store/slices/usageSlice.js';
+import { endSession, resumeSession } from '../store/slices/sessionSlice.js';
+import type { StoredSession } from './sessionStore.js';
+
+/**
+ * Rehydrates the chat state from a stored session so the next
+ * ChatMode/AgentMode call continues the conversation
+ */
+export function restoreSession(
+  dispatch: AppDispatch,
+  session: StoredSession
+): void {
+  // Detach first so the swap isn't recorded into either session
+  dispatch(endSession());
+
+  dispatch(
+    setBranches({
+      branches: session.branches.map((branch) => ({
+        ...branch,
+        messages: branch.messages.map((message) => ({
+          ...message,
+          isComplete: true,
+        })),
+      })),
+      activeBranchId: session.activeBranchId,
+    })
+  );
+  dispatch(
+    setMessages(
+      session.messages.map((message) => ({ ...message, isComplete: true }))
+    )
+  );
+  dispatch(setMode(session.mode));
+  dispatch(session.usage ? setCurrentUsage(session.usage) : clearUsage());
+  dispatch(setTurnUsage(session.turns));
+  dispatch(clearActiveToolCalls());
+  dispatch(setHighlightedMessageId(null));
+
+  dispatch(
+    resumeSession({
+      id: session.id,
+      createdAt: session.createdAt,
+      cwd: session.cwd,
+      title: session.title,
+      summary: session.summary,
+    })
+  );
+}
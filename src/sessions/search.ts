@@ -0,0 +1,287 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { SessionMessage } from '../schemas/session.js';
+import { SessionStore, deriveTitle, type StoredSession } from './sessionStore.js';
+import { describeContent } from '../utils/messageContent.js';
+
+// Bump to discard caches written with a different document layout
+const INDEX_VERSION = 1;
+const INDEX_FILE = 'search-index.json';
+// Long tool output is indexed in full but only this much is kept for snippets
+const MAX_STORED_TEXT = 20000;
+
+interface IndexedMessage {
+  messageId: string;
+  branchId: string;
+  role: SessionMessage['role'];
+  timestamp: number;
+  text: string;
+  terms: Record<string, number>;
+  length: number;
+}
+
+interface IndexedSession {
+  mtimeMs: number;
+  size: number;
+  title: string;
+  messages: IndexedMessage[];
+}
+
+interface IndexFile {
+  version: number;
+  sessions: Record<string, IndexedSession>;
+}
+
+export interface SearchResult {
+  sessionId: string;
+  title: string;
+  messageId: string;
+  branchId: string;
+  role: SessionMessage['role'];
+  timestamp: number;
+  snippet: string;
+  terms: string[];
+  score: number;
+}
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+}
+
+// Everything a message can be found by, including tool arguments and results
+function searchableText(message: SessionMessage): string {
+  const parts = [describeContent(message.content)];
+  if (message.displayContent) {
+    parts.push(message.displayContent);
+  }
+  for (const toolCall of message.tool_calls ?? []) {
+    parts.push(
+      `${toolCall?.function?.name ?? ''} ${toolCall?.function?.arguments ?? ''}`
+    );
+  }
+  return parts.filter(Boolean).join('\n');
+}
+
+function indexSession(session: StoredSession, mtimeMs: number, size: number): IndexedSession {
+  const messages: IndexedMessage[] = [];
+  const indexed = new Set<string>();
+
+  // Prefer the active branch so a shared message jumps to what the user last saw
+  const branches = [
+    ...session.branches.filter((branch) => branch.id === session.activeBranchId),
+    ...session.branches.filter((branch) => branch.id !== session.activeBranchId),
+  ];
+  for (const branch of branches) {
+    for (const message of branch.messages) {
+      if (indexed.has(message.id) || message.isInternal || message.role === 'system') {
+        continue;
+      }
+      indexed.add(message.id);
+
+      const text = searchableText(message);
+      const tokens = tokenize(text);
+      if (tokens.length === 0) {
+        continue;
+      }
+
+      // No prototype, so words like "constructor" or "__proto__" are plain keys
+      const terms: Record<string, number> = Object.create(null);
+      for (const token of tokens) {
+        terms[token] = termFrequency(terms, token) + 1;
+      }
+      messages.push({
+        messageId: message.id,
+        branchId: branch.id,
+        role: message.role,
+        timestamp: message.timestamp,
+        text: text.slice(0, MAX_STORED_TEXT),
+        terms,
+        length: tokens.length,
+      });
+    }
+  }
+
+  return {
+    mtimeMs,
+    size,
+    title: session.title ?? deriveTitle(session.messages),
+    messages,
+  };
+}
+
+// Term maps read back from the JSON cache are ordinary objects again
+const termFrequency = (terms: Record<string, number>, term: string): number =>
+  Object.hasOwn(terms, term) ? terms[term] : 0;
+
+function makeSnippet(text: string, terms: string[], phrase: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const lower = flat.toLowerCase();
+
+  let position = phrase ? lower.indexOf(phrase) : -1;
+  for (const term of terms) {
+    if (position !== -1) {
+      break;
+    }
+    position = lower.indexOf(term);
+  }
+  if (position === -1) {
+    position = 0;
+  }
+
+  const start = Math.max(0, position - 60);
+  const end = Math.min(flat.length, position + 100);
+  return `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+}
+
+/**
+ * Full-text index over saved sessions. The index is cached next to the
+ * session logs and only sessions whose files changed are re-read.
+ */
+export class SessionSearchIndex {
+  private sessionStore: SessionStore;
+  private indexPath: string;
+  private index: IndexFile | null = null;
+
+  constructor(sessionStore: SessionStore) {
+    this.sessionStore = sessionStore;
+    this.indexPath = join(sessionStore.getDirectory(), INDEX_FILE);
+  }
+
+  /**
+   * Brings the index up to date with the session files on disk
+   */
+  refresh(): void {
+    const index = this.loadIndex();
+    let changed = false;
+
+    const files = this.sessionStore.listFiles();
+    const present = new Set(files.map((file) => file.id));
+    for (const id of Object.keys(index.sessions)) {
+      if (!present.has(id)) {
+        delete index.sessions[id];
+        changed = true;
+      }
+    }
+
+    for (const file of files) {
+      const cached = index.sessions[file.id];
+      if (cached && cached.mtimeMs === file.mtimeMs && cached.size === file.size) {
+        continue;
+      }
+
+      try {
+        index.sessions[file.id] = indexSession(
+          this.sessionStore.load(file.id),
+          file.mtimeMs,
+          file.size
+        );
+      } catch {
+        // Unreadable sessions are simply not searchable
+        delete index.sessions[file.id];
+      }
+      changed = true;
+    }
+
+    if (changed) {
+      try {
+        writeFileSync(this.indexPath, JSON.stringify(index), 'utf8');
+      } catch {
+        // The cache is an optimization; searching still works without it
+      }
+    }
+  }
+
+  /**
+   * Ranks messages with BM25, boosting those containing the exact phrase
+   */
+  search(query: string, limit = 20): SearchResult[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0) {
+      return [];
+    }
+
+    this.refresh();
+    const sessions = this.index!.sessions;
+
+    const documents: { sessionId: string; message: IndexedMessage }[] = [];
+    for (const [sessionId, session] of Object.entries(sessions)) {
+      for (const message of session.messages) {
+        documents.push({ sessionId, message });
+      }
+    }
+    if (documents.length === 0) {
+      return [];
+    }
+
+    const averageLength =
+      documents.reduce((sum, doc) => sum + doc.message.length, 0) / documents.length;
+    const documentFrequency = new Map<string, number>();
+    for (const term of terms) {
+      documentFrequency.set(
+        term,
+        documents.filter((doc) => termFrequency(doc.message.terms, term) > 0).length
+      );
+    }
+
+    const k1 = 1.2;
+    const b = 0.75;
+    const phrase = terms.length > 1 ? query.toLowerCase().replace(/\s+/g, ' ').trim() : '';
+    const results: SearchResult[] = [];
+
+    for (const { sessionId, message } of documents) {
+      let score = 0;
+      for (const term of terms) {
+        const frequency = termFrequency(message.terms, term);
+        if (!frequency) {
+          continue;
+        }
+        const df = documentFrequency.get(term)!;
+        const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+        score +=
+          (idf * frequency * (k1 + 1)) /
+          (frequency + k1 * (1 - b + (b * message.length) / averageLength));
+      }
+      if (score === 0) {
+        continue;
+      }
+
+      const lowerText = message.text.toLowerCase();
+      if (phrase && lowerText.replace(/\s+/g, ' ').includes(phrase)) {
+        score *= 1.5;
+      }
+
+      results.push({
+        sessionId,
+        title: sessions[sessionId].title,
+        messageId: message.messageId,
+        branchId: message.branchId,
+        role: message.role,
+        timestamp: message.timestamp,
+        snippet: makeSnippet(message.text, terms, phrase),
+        terms,
+        score,
+      });
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  private loadIndex(): IndexFile {
+    if (this.index) {
+      return this.index;
+    }
+
+    this.index = { version: INDEX_VERSION, sessions: {} };
+    if (existsSync(this.indexPath)) {
+      try {
+        const cached = JSON.parse(readFileSync(this.indexPath, 'utf8')) as IndexFile;
+        if (cached.version === INDEX_VERSION) {
+          this.index = cached;
+        }
+      } catch {
+        // Rebuild a corrupt cache from the session files
+      }
+    }
+    return this.index;
+  }
+}
@@ -0,0 +1,381 @@
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  statSync,
+} from 'fs';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import {
+  SESSION_FORMAT_VERSION,
+  SessionRecordSchema,
+  type SessionHeader,
+  type SessionMessage,
+  type SessionRecord,
+} from '../schemas/session.js';
+import type { TokenUsage, TurnUsage } from '../store/slices/usageSlice.js';
+import { MAIN_BRANCH_ID } from '../store/slices/chatSlice.js';
+import { DEFAULT_SESSION_DIRECTORY, isSessionInProject } from './project.js';
+import { describeContent } from '../utils/messageContent.js';
+
+const SESSION_EXTENSION = '.jsonl';
+
+export type SessionMode = SessionHeader['mode'];
+
+export interface StoredBranch {
+  id: string;
+  name: string;
+  parentBranchId?: string;
+  forkMessageId?: string;
+  createdAt: number;
+  messages: SessionMessage[];
+}
+
+export interface StoredSession {
+  id: string;
+  version: number;
+  createdAt: number;
+  updatedAt: number;
+  cwd: string;
+  gitRoot?: string;
+  model: string;
+  mode: SessionMode;
+  messages: SessionMessage[]; // History of the active branch
+  branches: StoredBranch[];
+  activeBranchId: string;
+  usage: TokenUsage | null;
+  turns: TurnUsage[]; // API calls and their cost, grouped by turn
+  title?: string;
+  summary?: string;
+}
+
+export interface SessionSummary {
+  id: string;
+  title: string;
+  summary?: string;
+  createdAt: number;
+  updatedAt: number;
+  cwd: string;
+  gitRoot?: string;
+  model: string;
+  messageCount: number;
+}
+
+export interface SessionFile {
+  id: string;
+  mtimeMs: number;
+  size: number;
+}
+
+/**
+ * Append-only session log on disk. Each session is a JSONL file whose first
+ * line is a versioned header followed by records that are replayed on load.
+ */
+export class SessionStore {
+  private directory: string;
+
+  constructor(directory: string = DEFAULT_SESSION_DIRECTORY) {
+    this.directory = directory;
+  }
+
+  static createSessionId(): string {
+    const stamp = new Date()
+      .toISOString()
+      .replace(/[-:]/g, '')
+      .replace('T', '-')
+      .slice(0, 15);
+    return `${stamp}-${randomBytes(3).toString('hex')}`;
+  }
+
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  exists(id: string): boolean {
+    return existsSync(this.getPath(id));
+  }
+
+  /**
+   * Creates the session file with its header if it does not exist yet
+   * @returns true when a new file was created
+   */
+  ensure(header: Omit<SessionHeader, 'type' | 'version'>): boolean {
+    if (this.exists(header.id)) {
+      return false;
+    }
+
+    mkdirSync(this.directory, { recursive: true });
+    this.write(header.id, {
+      type: 'header',
+      version: SESSION_FORMAT_VERSION,
+      ...header,
+    });
+    return true;
+  }
+
+  /**
+   * Appends records synchronously so an abrupt exit never loses a written turn
+   */
+  append(id: string, ...records: SessionRecord[]): void {
+    for (const record of records) {
+      this.write(id, record);
+    }
+  }
+
+  load(id: string): StoredSession {
+    const path = this.getPath(id);
+    if (!existsSync(path)) {
+      throw new Error(`Session not found: ${id}`);
+    }
+
+    const session = this.replay(readFileSync(path, 'utf8'));
+    session.updatedAt = Math.max(session.updatedAt, statSync(path).mtimeMs);
+    return session;
+  }
+
+  /**
+   * Lists saved sessions, most recently updated first
+   */
+  list(): SessionSummary[] {
+    const summaries: SessionSummary[] = [];
+    for (const { id } of this.listFiles()) {
+      try {
+        const session = this.load(id);
+        summaries.push({
+          id: session.id,
+          title: session.title ?? deriveTitle(session.messages),
+          summary: session.summary,
+          createdAt: session.createdAt,
+          updatedAt: session.updatedAt,
+          cwd: session.cwd,
+          gitRoot: session.gitRoot,
+          model: session.model,
+          messageCount: session.messages.length,
+        });
+      } catch {
+        // Skip unreadable or foreign files
+      }
+    }
+
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Session files on disk with their size and modification time, used to
+   * detect changed sessions without replaying them
+   */
+  listFiles(): SessionFile[] {
+    if (!existsSync(this.directory)) {
+      return [];
+    }
+
+    return readdirSync(this.directory)
+      .filter((file) => file.endsWith(SESSION_EXTENSION))
+      .map((file) => {
+        const { mtimeMs, size } = statSync(join(this.directory, file));
+        return { id: file.slice(0, -SESSION_EXTENSION.length), mtimeMs, size };
+      });
+  }
+
+  /**
+   * Resolves a full session id from an id or a unique id prefix
+   */
+  resolveId(idOrPrefix: string): string {
+    if (this.exists(idOrPrefix)) {
+      return idOrPrefix;
+    }
+
+    const matches = this.list().filter((session) =>
+      session.id.startsWith(idOrPrefix)
+    );
+    if (matches.length === 0) {
+      throw new Error(`Session not found: ${idOrPrefix}`);
+    }
+    if (matches.length > 1) {
+      throw new Error(
+        `Session id "${idOrPrefix}" is ambiguous (${matches.length} matches)`
+      );
+    }
+    return matches[0].id;
+  }
+
+  /**
+   * Sessions started in the given project, most recently updated first
+   */
+  listForProject(projectRoot: string): SessionSummary[] {
+    return this.list().filter((session) =>
+      isSessionInProject(session, projectRoot)
+    );
+  }
+
+  /**
+   * Most recently updated session of the given project
+   */
+  findLatest(projectRoot: string): SessionSummary | undefined {
+    return this.listForProject(projectRoot)[0];
+  }
+
+  private getPath(id: string): string {
+    return join(this.directory, `${id}${SESSION_EXTENSION}`);
+  }
+
+  private write(id: string, record: SessionRecord): void {
+    appendFileSync(this.getPath(id), JSON.stringify(record) + '\n', 'utf8');
+  }
+
+  /**
+   * Rebuilds a session from its log. Lines that fail to parse (for example a
+   * half-written line after a crash) are skipped.
+   */
+  private replay(content: string): StoredSession {
+    const records: SessionRecord[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        const parsed = SessionRecordSchema.safeParse(JSON.parse(line));
+        if (parsed.success) {
+          records.push(parsed.data);
+        }
+      } catch {
+        // Ignore truncated lines
+      }
+    }
+
+    const header = records[0];
+    if (!header || header.type !== 'header') {
+      throw new Error('Session file is missing its header');
+    }
+    if (header.version > SESSION_FORMAT_VERSION) {
+      throw new Error(
+        `Session ${header.id} was written by a newer version of jecko (format v${header.version})`
+      );
+    }
+
+    const session: StoredSession = {
+      id: header.id,
+      version: header.version,
+      createdAt: header.createdAt,
+      updatedAt: header.createdAt,
+      cwd: header.cwd,
+      gitRoot: header.gitRoot,
+      model: header.model,
+      mode: header.mode,
+      messages: [],
+      branches: [],
+      activeBranchId: MAIN_BRANCH_ID,
+      usage: null,
+      turns: [],
+    };
+
+    // Messages are stored once; branches reference them by id
+    const messagesById = new Map<string, SessionMessage>();
+    const branches = new Map<
+      string,
+      Omit<StoredBranch, 'messages'> & { messageIds: string[] }
+    >();
+    const getBranch = (id: string) => {
+      if (!branches.has(id)) {
+        branches.set(id, {
+          id,
+          name: id,
+          createdAt: header.createdAt,
+          messageIds: [],
+        });
+      }
+      return branches.get(id)!;
+    };
+    getBranch(MAIN_BRANCH_ID);
+
+    for (const record of records.slice(1)) {
+      session.updatedAt = Math.max(session.updatedAt, 'at' in record ? record.at : 0);
+
+      switch (record.type) {
+        case 'message': {
+          messagesById.set(record.message.id, record.message);
+          // v1 files have a single implicit conversation
+          const branchId =
+            record.branchId ?? (header.version === 1 ? MAIN_BRANCH_ID : undefined);
+          if (branchId) {
+            const branch = getBranch(branchId);
+            if (!branch.messageIds.includes(record.message.id)) {
+              branch.messageIds.push(record.message.id);
+            }
+          }
+          break;
+        }
+        case 'reset':
+          getBranch(session.activeBranchId).messageIds = record.messageIds;
+          break;
+        case 'branch': {
+          const { type, at, ...branch } = record;
+          branches.set(branch.id, branch);
+          break;
+        }
+        case 'checkout':
+          session.activeBranchId = record.branchId;
+          break;
+        case 'mode':
+          session.mode = record.mode;
+          break;
+        case 'model':
+          session.model = record.model;
+          break;
+        case 'usage':
+          session.usage = record.usage;
+          break;
+        case 'turn':
+          session.turns.push({ kind: record.kind, startedAt: record.at, calls: [] });
+          break;
+        case 'call':
+          if (session.turns.length === 0) {
+            session.turns.push({ kind: 'CHAT', startedAt: record.at, calls: [] });
+          }
+          (
+            (record.turn !== undefined && session.turns[record.turn]) ||
+            session.turns[session.turns.length - 1]
+          ).calls.push({
+            ...record.usage,
+            model: record.model,
+            at: record.at,
+          });
+          break;
+        case 'meta':
+          session.title = record.title ?? session.title;
+          session.summary = record.summary ?? session.summary;
+          break;
+      }
+    }
+
+    getBranch(session.activeBranchId);
+    session.branches = Array.from(branches.values()).map(
+      ({ messageIds, ...branch }) => ({
+        ...branch,
+        messages: messageIds
+          .filter((id) => messagesById.has(id))
+          .map((id) => messagesById.get(id)!),
+      })
+    );
+    session.messages = session.branches.find(
+      (branch) => branch.id === session.activeBranchId
+    )!.messages;
+    return session;
+  }
+}
+
+export function deriveTitle(messages: SessionMessage[]): string {
+  const firstUserMessage = messages.find(
+    (msg) => msg.role === 'user' && !msg.isInternal
+  );
+  if (!firstUserMessage) {
+    return 'Untitled session';
+  }
+
+  const text = describeContent(firstUserMessage.content)
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
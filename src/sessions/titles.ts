@@ -0,0 +1,105 @@
+import { OpenAIClient } from '../openai.js';
+import type { TokenUsage } from '../providers/index.js';
+import { describeContent, type MessageContent } from '../utils/messageContent.js';
+
+interface Message {
+  role: 'user' | 'assistant' | 'tool' | 'system';
+  content: MessageContent;
+  isInternal?: boolean;
+}
+
+export interface SessionTitle {
+  title: string;
+  summary: string;
+}
+
+const MAX_TITLE_LENGTH = 60;
+const MAX_SUMMARY_LENGTH = 160;
+// Enough of the opening exchange to name it without sending whole tool outputs
+const MAX_EXCERPT_LENGTH = 4000;
+
+const clamp = (text: string, length: number): string => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > length ? `${flat.slice(0, length - 3)}...` : flat;
+};
+
+/**
+ * Names a session from its opening exchange using the configured model
+ */
+export class SessionTitleGenerator {
+  private client: OpenAIClient;
+
+  constructor(client: OpenAIClient) {
+    this.client = client;
+  }
+
+  /**
+   * @param onUsage - Called with the naming call's usage, when reported
+   * @returns the title and one-line summary, or null when the model gave nothing usable
+   */
+  async generate(
+    messages: Message[],
+    onUsage?: (usage: TokenUsage) => void
+  ): Promise<SessionTitle | null> {
+    const conversationText = messages
+      .filter(
+        (msg) =>
+          !msg.isInternal &&
+          (msg.role === 'user' || msg.role === 'assistant') &&
+          describeContent(msg.content).trim()
+      )
+      .map((msg) => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${describeContent(msg.content)}`)
+      .join('\n\n')
+      .slice(0, MAX_EXCERPT_LENGTH);
+    if (!conversationText) {
+      return null;
+    }
+
+    const response = await this.client.chat([
+      {
+        role: 'system',
+        content: 'You name conversations. Reply with only a JSON object of the form {"title": "...", "summary": "..."}. The title is at most 6 words with no quotes or trailing punctuation. The summary is one sentence describing what the user wanted.',
+      },
+      {
+        role: 'user',
+        content: `Name this conversation:\n\n${conversationText}`,
+      },
+    ], false);
+
+    if (response.usage) {
+      onUsage?.(response.usage);
+    }
+    return parseTitleResponse(response.content);
+  }
+}
+
+function parseTitleResponse(content: string): SessionTitle | null {
+  const jsonStart = content.indexOf('{');
+  const jsonEnd = content.lastIndexOf('}');
+  if (jsonStart !== -1 && jsonEnd > jsonStart) {
+    try {
+      const parsed = JSON.parse(content.slice(jsonStart, jsonEnd + 1));
+      if (typeof parsed.title === 'string' && parsed.title.trim()) {
+        return {
+          title: clamp(parsed.title.replace(/^["']|["'.]$/g, ''), MAX_TITLE_LENGTH),
+          summary: clamp(
+            typeof parsed.summary === 'string' ? parsed.summary : '',
+            MAX_SUMMARY_LENGTH
+          ),
+        };
+      }
+    } catch {
+      // Fall back to treating the reply as plain text
+    }
+  }
+
+  // Models that ignore the format usually put the title on the first line
+  const [firstLine, ...rest] = content.trim().split('\n');
+  if (!firstLine?.trim()) {
+    return null;
+  }
+  return {
+    title: clamp(firstLine.replace(/^(title:)?\s*["']?|["'.]$/gi, ''), MAX_TITLE_LENGTH),
+    summary: clamp(rest.join(' ').replace(/^summary:\s*/i, ''), MAX_SUMMARY_LENGTH),
+  };
+}
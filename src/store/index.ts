@@ -2,15 +2,18 @@ import { configureStore } from '@reduxjs/toolkit';
 import { chatSlice } from './slices/chatSlice.js';
 import { uiSlice } from './slices/uiSlice.js';
 import { usageSlice } from './slices/usageSlice.js';
+import { sessionSlice } from './slices/sessionSlice.js';
+import { sessionMiddleware } from '../sessions/recorder.js';
 
 export const store = configureStore({
   reducer: {
     chat: chatSlice.reducer,
     ui: uiSlice.reducer,
     usage: usageSlice.reducer,
+    session: sessionSlice.reducer,
   },
   middleware: (getDefaultMiddleware) =>
-    getDefaultMiddleware(),
+    getDefaultMiddleware().concat(sessionMiddleware),
 });
 
 export type RootState = ReturnType<typeof store.getState>;
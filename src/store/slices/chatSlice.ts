@@ -1,10 +1,26 @@
-import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { createSlice, nanoid, PayloadAction } from '@reduxjs/toolkit';
 import { Message } from '../../components/MessageList.js';
+import type { TokenUsage } from './usageSlice.js';
+import type { MessageContent } from '../../utils/messageContent.js';
 
 export type Mode = 'CHAT' | 'AGENT';
 
+export const MAIN_BRANCH_ID = 'main';
+
+export interface Branch {
+  id: string;
+  name: string;
+  parentBranchId?: string;
+  forkMessageId?: string; // Last message shared with the parent branch
+  createdAt: number;
+  messages: Message[]; // Snapshot for inactive branches; the active one lives in ChatState.messages
+}
+
 export interface ChatState {
   messages: Message[];
+  historyRevision: number; // Bumped whenever history is rewritten rather than appended
+  branches: Record<string, Branch>;
+  activeBranchId: string;
   mode: Mode;
   isLoading: boolean;
   input: string;
@@ -12,18 +28,37 @@ export interface ChatState {
 
 const initialState: ChatState = {
   messages: [],
+  historyRevision: 0,
+  branches: {
+    [MAIN_BRANCH_ID]: {
+      id: MAIN_BRANCH_ID,
+      name: MAIN_BRANCH_ID,
+      createdAt: Date.now(),
+      messages: [],
+    },
+  },
+  activeBranchId: MAIN_BRANCH_ID,
   mode: 'AGENT',
   isLoading: false,
   input: '',
 };
 
+export const findLastUserMessageIndex = (messages: Message[]): number => {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'user' && !messages[i].isInternal) {
+      return i;
+    }
+  }
+  return -1;
+};
+
 export const chatSlice = createSlice({
   name: 'chat',
   initialState,
   reducers: {
     addMessage: (state, action: PayloadAction<{
       role: 'user' | 'assistant' | 'tool' | 'system';
-      content: string;
+      content: MessageContent;
       toolName?: string;
       toolArgs?: any;
       isStreaming?: boolean;
@@ -32,9 +67,12 @@ export const chatSlice = createSlice({
       tool_calls?: any[];
       isInternal?: boolean;
       displayContent?: string;
+      reasoning?: string;
+      mode?: Mode;
     }>) => {
       const message: Message = {
         ...action.payload,
+        id: nanoid(),
         timestamp: Date.now(),
         isComplete: action.payload.isComplete !== undefined ? action.payload.isComplete : !action.payload.isStreaming,
       };
@@ -43,11 +81,15 @@ export const chatSlice = createSlice({
 
     updateLastMessage: (state, action: PayloadAction<{
       content: string;
+      reasoning?: string; // Replaces the streamed reasoning when given
       isComplete?: boolean;
     }>) => {
       if (state.messages.length > 0) {
         const lastMessage = state.messages[state.messages.length - 1];
         lastMessage.content = action.payload.content;
+        if (action.payload.reasoning !== undefined) {
+          lastMessage.reasoning = action.payload.reasoning || undefined;
+        }
         const isComplete = action.payload.isComplete ?? false;
         lastMessage.isComplete = isComplete;
         if (isComplete) {
@@ -57,7 +99,87 @@ export const chatSlice = createSlice({
     },
 
     setMessages: (state, action: PayloadAction<Message[]>) => {
-      state.messages = action.payload;
+      state.messages = action.payload.map((message) => ({
+        ...message,
+        id: message.id ?? nanoid(),
+      }));
+      state.historyRevision++;
+    },
+
+    // Drops the last user turn and everything after it, including assistant
+    // tool_calls and their tool results, so the history stays valid
+    undoLastTurn: (state) => {
+      const lastUserIndex = findLastUserMessageIndex(state.messages);
+      if (lastUserIndex === -1) {
+        return;
+      }
+      state.messages = state.messages.slice(0, lastUserIndex);
+      state.historyRevision++;
+    },
+
+    annotateLastMessageUsage: (state, action: PayloadAction<TokenUsage>) => {
+      if (state.messages.length > 0) {
+        state.messages[state.messages.length - 1].usage = action.payload;
+      }
+    },
+
+    // Branching: the active branch's history is always in `messages`
+    forkBranch: (state, action: PayloadAction<{
+      messageId: string;
+      name?: string;
+      before?: boolean; // Fork just before the message instead of after it
+    }>) => {
+      const { messageId, name, before } = action.payload;
+      const messageIndex = state.messages.findIndex((msg) => msg.id === messageId);
+      if (messageIndex === -1) {
+        return;
+      }
+      const forkIndex = before ? messageIndex - 1 : messageIndex;
+
+      state.branches[state.activeBranchId].messages = state.messages;
+
+      const id = nanoid(8);
+      const branchCount = Object.keys(state.branches).length;
+      state.branches[id] = {
+        id,
+        name: name || `branch-${branchCount}`,
+        parentBranchId: state.activeBranchId,
+        forkMessageId: state.messages[forkIndex]?.id,
+        createdAt: Date.now(),
+        messages: [],
+      };
+      state.activeBranchId = id;
+      state.messages = state.messages.slice(0, forkIndex + 1);
+      state.historyRevision++;
+    },
+
+    switchBranch: (state, action: PayloadAction<string>) => {
+      const target = state.branches[action.payload];
+      if (!target || target.id === state.activeBranchId) {
+        return;
+      }
+
+      state.branches[state.activeBranchId].messages = state.messages;
+      state.messages = target.messages;
+      target.messages = [];
+      state.activeBranchId = target.id;
+      state.historyRevision++;
+    },
+
+    setBranches: (state, action: PayloadAction<{
+      branches: Branch[];
+      activeBranchId: string;
+    }>) => {
+      state.branches = {};
+      for (const branch of action.payload.branches) {
+        state.branches[branch.id] = branch;
+      }
+      state.activeBranchId = action.payload.activeBranchId;
+      state.branches[state.activeBranchId].messages = [];
+    },
+
+    setMode: (state, action: PayloadAction<Mode>) => {
+      state.mode = action.payload;
     },
 
     toggleMode: (state) => {
@@ -94,6 +216,15 @@ export const chatSlice = createSlice({
       }
     },
 
+    appendReasoningToLastMessage: (state, action: PayloadAction<string>) => {
+      if (state.messages.length > 0) {
+        const lastMessage = state.messages[state.messages.length - 1];
+        if (lastMessage.role === 'assistant') {
+          lastMessage.reasoning = (lastMessage.reasoning ?? '') + action.payload;
+        }
+      }
+    },
+
     markLastMessageComplete: (state) => {
       if (state.messages.length > 0) {
         const lastMessage = state.messages[state.messages.length - 1];
@@ -120,6 +251,7 @@ export const chatSlice = createSlice({
       }
 
       const toolMessage: Message = {
+        id: nanoid(),
         role: 'tool',
         content: `Tool executed: ${toolName}`, // Generic content for LLM
         displayContent: displayMessage, // User-friendly display
@@ -134,6 +266,7 @@ export const chatSlice = createSlice({
 
     addStreamingAssistantMessage: (state) => {
       const message: Message = {
+        id: nanoid(),
         role: 'assistant',
         content: '',
         timestamp: Date.now(),
@@ -158,6 +291,12 @@ export const {
   addMessage,
   updateLastMessage,
   setMessages,
+  undoLastTurn,
+  annotateLastMessageUsage,
+  forkBranch,
+  switchBranch,
+  setBranches,
+  setMode,
   toggleMode,
   setLoading,
   setInput,
@@ -165,6 +304,7 @@ export const {
   appendToInput,
   removeLastInputChar,
   appendTokenToLastMessage,
+  appendReasoningToLastMessage,
   markLastMessageComplete,
   addToolCallMessage,
   addStreamingAssistantMessage,
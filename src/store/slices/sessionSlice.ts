@@ -0,0 +1,83 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+
+export interface SessionState {
+  id: string | null;
+  createdAt: number | null;
+  cwd: string;
+  model: string;
+  title: string | null;
+  summary: string | null;
+}
+
+const initialState: SessionState = {
+  id: null,
+  createdAt: null,
+  cwd: process.cwd(),
+  model: '',
+  title: null,
+  summary: null,
+};
+
+export const sessionSlice = createSlice({
+  name: 'session',
+  initialState,
+  reducers: {
+    startSession: (state, action: PayloadAction<{
+      id: string;
+      model: string;
+      cwd?: string;
+    }>) => {
+      state.id = action.payload.id;
+      state.createdAt = Date.now();
+      state.model = action.payload.model;
+      state.cwd = action.payload.cwd ?? process.cwd();
+      state.title = null;
+      state.summary = null;
+    },
+
+    setSessionModel: (state, action: PayloadAction<string>) => {
+      state.model = action.payload;
+    },
+
+    setSessionTitle: (state, action: PayloadAction<{
+      title: string;
+      summary?: string;
+    }>) => {
+      state.title = action.payload.title;
+      if (action.payload.summary !== undefined) {
+        state.summary = action.payload.summary;
+      }
+    },
+
+    // Detaches recording while the chat state is swapped out
+    endSession: (state) => {
+      state.id = null;
+      state.createdAt = null;
+      state.title = null;
+      state.summary = null;
+    },
+
+    resumeSession: (state, action: PayloadAction<{
+      id: string;
+      createdAt: number;
+      cwd: string;
+      title?: string;
+      summary?: string;
+    }>) => {
+      // Keep the current model; the resumed conversation continues on it
+      state.id = action.payload.id;
+      state.createdAt = action.payload.createdAt;
+      state.cwd = action.payload.cwd;
+      state.title = action.payload.title ?? null;
+      state.summary = action.payload.summary ?? null;
+    },
+  },
+});
+
+export const {
+  startSession,
+  setSessionModel,
+  setSessionTitle,
+  endSession,
+  resumeSession,
+} = sessionSlice.actions;
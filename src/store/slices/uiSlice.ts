@@ -18,13 +18,18 @@ export interface ActiveToolCall {
   id: string;
   name: string;
   args: any;
-  status: 'starting' | 'running' | 'completed' | 'error';
+  status: 'starting' | 'running' | 'completed' | 'error' | 'aborted';
   displayText: string;
   startTime: number;
   endTime?: number;
   error?: string;
 }
 
+export interface RetryStatus {
+  attempt: number;
+  maxRetries: number;
+}
+
 export interface UIState {
   showCommandSelector: boolean;
   commandQuery: string;
@@ -32,6 +37,10 @@ export interface UIState {
   activeCommand: ActiveCommandState;
   hasActiveCommandJSX: boolean; // Track if external JSX command is active
   activeToolCalls: ActiveToolCall[]; // Real-time tool call indicators
+  highlightedMessageId: string | null; // Message opened from a history search
+  retryStatus: RetryStatus | null; // Set while a failed API call is being retried
+  showThinking: boolean; // Expand reasoning blocks instead of a one-line summary
+  sessionSaveError: string | null; // Why the session stopped being saved
 }
 
 const initialState: UIState = {
@@ -41,6 +50,10 @@ const initialState: UIState = {
   activeCommand: { type: null },
   hasActiveCommandJSX: false,
   activeToolCalls: [],
+  highlightedMessageId: null,
+  retryStatus: null,
+  showThinking: false,
+  sessionSaveError: null,
 };
 
 export const uiSlice = createSlice({
@@ -140,7 +153,7 @@ export const uiSlice = createSlice({
 
     updateToolCallStatus: (state, action: PayloadAction<{
       id: string;
-      status: 'running' | 'completed' | 'error';
+      status: 'running' | 'completed' | 'error' | 'aborted';
       error?: string;
     }>) => {
       const { id, status, error } = action.payload;
@@ -148,7 +161,7 @@ export const uiSlice = createSlice({
       
       if (toolCall) {
         toolCall.status = status;
-        if (status === 'completed' || status === 'error') {
+        if (status !== 'running') {
           toolCall.endTime = Date.now();
         }
         if (error) {
@@ -164,6 +177,22 @@ export const uiSlice = createSlice({
     removeActiveToolCall: (state, action: PayloadAction<string>) => {
       state.activeToolCalls = state.activeToolCalls.filter(tc => tc.id !== action.payload);
     },
+
+    setHighlightedMessageId: (state, action: PayloadAction<string | null>) => {
+      state.highlightedMessageId = action.payload;
+    },
+
+    setRetryStatus: (state, action: PayloadAction<RetryStatus | null>) => {
+      state.retryStatus = action.payload;
+    },
+
+    toggleThinking: (state) => {
+      state.showThinking = !state.showThinking;
+    },
+
+    setSessionSaveError: (state, action: PayloadAction<string | null>) => {
+      state.sessionSaveError = action.payload;
+    },
   },
 });
 
@@ -183,4 +212,8 @@ export const {
   updateToolCallStatus,
   clearActiveToolCalls,
   removeActiveToolCall,
+  setHighlightedMessageId,
+  setRetryStatus,
+  toggleThinking,
+  setSessionSaveError,
 } = uiSlice.actions;
\ No newline at end of file
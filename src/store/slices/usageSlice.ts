@@ -1,17 +1,78 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { Message } from '../../components/MessageList.js';
 
 export interface TokenUsage {
   promptTokens: number;
   completionTokens: number;
   totalTokens: number;
+  reasoningTokens?: number; // Included in completionTokens
+  cost?: number; // USD, unset when the model has no prices
+}
+
+// What started a turn's calls: a user message, a compaction summary or
+// naming the session
+export type TurnKind = 'CHAT' | 'AGENT' | 'compaction' | 'title';
+
+export interface CallUsage extends TokenUsage {
+  model: string;
+  at: number;
+}
+
+export interface TurnUsage {
+  kind: TurnKind;
+  startedAt: number;
+  calls: CallUsage[];
 }
 
 export interface UsageState {
-  currentUsage: TokenUsage | null;
+  currentUsage: TokenUsage | null; // Latest call, i.e. the context in use
+  turns: TurnUsage[]; // Every call of the session, kept through /undo and /retry
 }
 
 const initialState: UsageState = {
   currentUsage: null,
+  turns: [],
+};
+
+/**
+ * Adds up token counts and costs. The cost covers the priced calls and is
+ * unset when none of them had prices.
+ */
+export const sumUsage = (usages: TokenUsage[]): TokenUsage => {
+  const total: TokenUsage = {
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+  };
+  for (const usage of usages) {
+    total.promptTokens += usage.promptTokens;
+    total.completionTokens += usage.completionTokens;
+    total.totalTokens += usage.totalTokens;
+    if (usage.reasoningTokens) {
+      total.reasoningTokens =
+        (total.reasoningTokens ?? 0) + usage.reasoningTokens;
+    }
+    if (usage.cost !== undefined) {
+      total.cost = (total.cost ?? 0) + usage.cost;
+    }
+  }
+  return total;
+};
+
+export const getSessionUsage = (turns: TurnUsage[]): TokenUsage =>
+  sumUsage(turns.flatMap((turn) => turn.calls));
+
+/**
+ * Usage recorded at the end of the latest turn still in the history, used to
+ * restore the context meter after the history is rewound or switched
+ */
+export const findTurnUsage = (messages: Message[]): TokenUsage | null => {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].usage) {
+      return messages[i].usage!;
+    }
+  }
+  return null;
 };
 
 export const usageSlice = createSlice({
@@ -22,6 +83,44 @@ export const usageSlice = createSlice({
       state.currentUsage = action.payload;
     },
 
+    startTurnUsage: (
+      state,
+      action: PayloadAction<{ kind: TurnKind; startedAt: number }>
+    ) => {
+      state.turns.push({ ...action.payload, calls: [] });
+    },
+
+    // Adds a call to the turn started at `turnStartedAt` (the latest one by
+    // default); it's also the new context size
+    recordCallUsage: (
+      state,
+      action: PayloadAction<CallUsage & { turnStartedAt?: number }>
+    ) => {
+      const { turnStartedAt, ...call } = action.payload;
+      const { model, at, ...usage } = call;
+      state.currentUsage = usage;
+      let turn =
+        turnStartedAt === undefined
+          ? state.turns[state.turns.length - 1]
+          : [...state.turns].reverse().find((t) => t.startedAt === turnStartedAt);
+      if (!turn) {
+        turn = { kind: 'CHAT', startedAt: turnStartedAt ?? at, calls: [] };
+        state.turns.push(turn);
+      }
+      turn.calls.push(call);
+    },
+
+    // Background work that finished on its own, e.g. naming the session. It
+    // doesn't touch the context size and may land while a turn is running.
+    addTurnUsage: (state, action: PayloadAction<TurnUsage>) => {
+      state.turns.push(action.payload);
+    },
+
+    // Replaces the spend history, e.g. with a resumed session's
+    setTurnUsage: (state, action: PayloadAction<TurnUsage[]>) => {
+      state.turns = action.payload;
+    },
+
     clearUsage: (state) => {
       state.currentUsage = null;
     },
@@ -31,6 +130,11 @@ export const usageSlice = createSlice({
         state.currentUsage.promptTokens += action.payload.promptTokens;
         state.currentUsage.completionTokens += action.payload.completionTokens;
         state.currentUsage.totalTokens += action.payload.totalTokens;
+        if (action.payload.reasoningTokens) {
+          state.currentUsage.reasoningTokens =
+            (state.currentUsage.reasoningTokens ?? 0) +
+            action.payload.reasoningTokens;
+        }
       } else {
         state.currentUsage = action.payload;
       }
@@ -40,6 +144,10 @@ export const usageSlice = createSlice({
 
 export const {
   setCurrentUsage,
+  startTurnUsage,
+  recordCallUsage,
+  addTurnUsage,
+  setTurnUsage,
   clearUsage,
   addUsage,
 } = usageSlice.actions;
\ No newline at end of file
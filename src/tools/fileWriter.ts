@@ -80,6 +80,7 @@ function rethrowReadableError(error: unknown): never {
 
 export const FilerWriterTool = createTool({
   name: 'file_writer',
+  parallelSafe: false,
   description: 'Write content to a file on the local filesystem',
   schema: z.object({
     filename: z
@@ -0,0 +1,35 @@
+import type { Tool } from '../utils/toolInfra.js';
+import { WebSearchTool } from './serper.js';
+import { URLScraperTool } from './scraper.js';
+import { FilerWriterTool } from './fileWriter.js';
+import {
+  TodoistCreateTaskTool,
+  TodoistGetTasksTool,
+  TodoistGetProjectsTool,
+  TodoistCompleteTaskTool,
+  TodoistCreateProjectTool,
+} from './todoist.js';
+import {
+  AgentPlanCreateTool,
+  AgentPlanUpdateTool,
+  AgentDoneTool,
+} from './internalPlan.js';
+
+// Every built-in tool the chat client is created with
+export const builtInTools: Tool<any, any>[] = [
+  WebSearchTool,
+  URLScraperTool,
+  FilerWriterTool,
+  TodoistCreateTaskTool,
+  TodoistGetTasksTool,
+  TodoistGetProjectsTool,
+  TodoistCompleteTaskTool,
+  TodoistCreateProjectTool,
+  AgentPlanCreateTool,
+  AgentPlanUpdateTool,
+  AgentDoneTool,
+];
+
+export function findBuiltInTool(name: string): Tool<any, any> | undefined {
+  return builtInTools.find((tool) => tool.name === name);
+}
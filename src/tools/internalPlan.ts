@@ -1,8 +1,8 @@
 import { z } from 'zod';
+import { AsyncLocalStorage } from 'async_hooks';
 import { createTool } from '../utils/toolInfra.js';
 
-// Internal state to store the current plan (in-memory for now)
-let currentPlan: {
+interface AgentPlan {
   goal: string;
   steps: Array<{
     id: string;
@@ -12,10 +12,37 @@ let currentPlan: {
   }>;
   createdAt: number;
   updatedAt: number;
-} | null = null;
+}
+
+// Internal state to store the current plan (in-memory for now)
+let globalPlan: AgentPlan | null = null;
+
+// Concurrent headless runs (jecko batch) each get a plan of their own
+const planScope = new AsyncLocalStorage<{ plan: AgentPlan | null }>();
+
+const readPlan = (): AgentPlan | null => {
+  const scope = planScope.getStore();
+  return scope ? scope.plan : globalPlan;
+};
+
+const writePlan = (plan: AgentPlan): void => {
+  const scope = planScope.getStore();
+  if (scope) {
+    scope.plan = plan;
+  } else {
+    globalPlan = plan;
+  }
+};
+
+/**
+ * Runs `fn` with its own agent plan, isolated from other concurrent runs
+ */
+export const runWithPlanScope = <T>(fn: () => Promise<T>): Promise<T> =>
+  planScope.run({ plan: null }, fn);
 
 export const AgentPlanCreateTool = createTool({
   name: 'agent_plan_create',
+  parallelSafe: false,
   description:
     "Create an agent execution plan for complex tasks. This is for the agent's own planning and tracking, NOT for external productivity tools like Todoist. Use this to break down user requests into manageable steps.",
   schema: z.object({
@@ -48,7 +75,7 @@ export const AgentPlanCreateTool = createTool({
   execute: async ({ goal, steps }, config) => {
     const now = Date.now();
 
-    currentPlan = {
+    const currentPlan: AgentPlan = {
       goal,
       steps: steps.map((step) => ({
         ...step,
@@ -57,6 +84,7 @@ export const AgentPlanCreateTool = createTool({
       createdAt: now,
       updatedAt: now,
     };
+    writePlan(currentPlan);
 
     const stepsList = currentPlan.steps
       .map(
@@ -78,6 +106,7 @@ Use agent_plan_update to mark steps as in_progress, completed, or add notes as y
 
 export const AgentPlanUpdateTool = createTool({
   name: 'agent_plan_update',
+  parallelSafe: false,
   description:
     'Update the agent execution plan by changing step status, adding notes, or adding new steps. This helps track progress through complex tasks.',
   schema: z.object({
@@ -110,6 +139,7 @@ export const AgentPlanUpdateTool = createTool({
       .describe('New steps to add to the plan (null if no new steps)'),
   }),
   formatToolCall: ({ step_id, status }) => {
+    const currentPlan = readPlan();
     if (!currentPlan) {
       return `📝 Updating plan step "${step_id}"`;
     }
@@ -141,6 +171,7 @@ export const AgentPlanUpdateTool = createTool({
     return `📝 Updating execution plan:\n\n**Goal:** ${currentPlan.goal}\n\n${updatedSteps}`;
   },
   execute: async ({ step_id, status, notes, add_steps }, config) => {
+    const currentPlan = readPlan();
     if (!currentPlan) {
       throw new Error(
         'No agent plan exists. Create one first using agent_plan_create.'
@@ -228,6 +259,7 @@ ${stepsList}`;
 
 export const AgentDoneTool = createTool({
   name: 'agent_done',
+  parallelSafe: false,
   description:
     "Signal that the current task is completely finished. Use this when you have successfully accomplished all aspects of the user's request and no further actions are needed.",
   schema: z.object({
@@ -275,4 +307,4 @@ export const AgentDoneTool = createTool({
 });
 
 // Helper function to get current plan (for debugging/inspection)
-export const getCurrentPlan = () => currentPlan;
+export const getCurrentPlan = () => readPlan();
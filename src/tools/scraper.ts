@@ -29,7 +29,7 @@ export const URLScraperTool = createTool({
   formatToolCall(params) {
     return `Scraping: ${params.url}`;
   },
-  execute: async ({ url, includeMarkdown }, config) => {
+  execute: async ({ url, includeMarkdown }, config, signal) => {
     const apiKey = config.serper.apiKey;
     const baseUrl = 'https://scrape.serper.dev';
 
@@ -49,6 +49,7 @@ export const URLScraperTool = createTool({
         },
         data: requestData,
         timeout: 30000, // 30 second timeout
+        signal,
       };
 
       const response = await axios.request(config);
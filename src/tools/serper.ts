@@ -37,7 +37,7 @@ export const WebSearchTool = createTool({
   formatToolCall(params) {
     return `Searching: ${params.query}`;
   },
-  execute: async ({ query, num_results }, config) => {
+  execute: async ({ query, num_results }, config, signal) => {
     const apiKey = config.serper.apiKey;
     const baseUrl = 'https://google.serper.dev/search';
 
@@ -54,6 +54,7 @@ export const WebSearchTool = createTool({
             'Content-Type': 'application/json',
           },
           timeout: 10000,
+          signal,
         }
       );
 
@@ -0,0 +1,51 @@
+// Result recorded for tool calls the user cancelled, so every call still has an answer
+export const CANCELLED_TOOL_RESULT = 'Cancelled by user';
+
+export class AbortError extends Error {
+  constructor(message = 'Cancelled by user') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * Settles with `promise`, or rejects with an AbortError as soon as `signal`
+ * aborts. Work that doesn't take a signal is abandoned, not stopped.
+ */
+export function raceAbort<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(new AbortError());
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new AbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', onAbort);
+    });
+  });
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
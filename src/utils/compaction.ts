@@ -1,8 +1,10 @@
 import { OpenAIClient } from '../openai.js';
+import type { TokenUsage } from '../providers/index.js';
+import { describeContent, type MessageContent } from './messageContent.js';
 
 interface Message {
   role: 'user' | 'assistant' | 'tool' | 'system';
-  content: string;
+  content: MessageContent;
   timestamp: number;
   toolName?: string;
   toolArgs?: any;
@@ -17,8 +19,12 @@ export interface CompactionResult {
   tokensSaved: number;
   originalCount: number;
   compactedCount: number;
+  usage?: TokenUsage; // The summary request, when the backend reports it
 }
 
+// Share of the model's context window that triggers auto-compaction
+const AUTO_COMPACT_THRESHOLD = 0.9;
+
 /**
  * Compacts conversation history by summarizing older messages while preserving recent context
  */
@@ -29,6 +35,15 @@ export class ConversationCompactor {
     this.client = client;
   }
 
+  /**
+   * Whether a conversation of `usedTokens` is close to filling the model's
+   * context window
+   */
+  shouldCompact(usedTokens: number): boolean {
+    const { contextWindow } = this.client.getModelInfo();
+    return usedTokens >= contextWindow * AUTO_COMPACT_THRESHOLD;
+  }
+
   /**
    * Compacts messages by keeping recent messages and summarizing older ones
    * @param messages - Array of conversation messages
@@ -64,7 +79,7 @@ export class ConversationCompactor {
 
     // Create conversation text for summarization
     const conversationText = messagesToCompact
-      .map(msg => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
+      .map(msg => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${describeContent(msg.content)}`)
       .join('\n\n');
 
     try {
@@ -102,6 +117,7 @@ export class ConversationCompactor {
         tokensSaved: this.estimateTokensSaved(messagesToCompact, summaryMessage),
         originalCount: messages.length,
         compactedCount: compactedMessages.length,
+        usage: summaryResponse.usage,
       };
     } catch (error) {
       console.error('Compaction failed:', error);
@@ -116,12 +132,11 @@ export class ConversationCompactor {
   }
 
   /**
-   * Rough estimation of tokens saved (4 characters ≈ 1 token)
+   * Tokens saved by replacing the original messages with the summary
    */
   private estimateTokensSaved(originalMessages: Message[], summaryMessage: Message): number {
-    const originalLength = originalMessages.reduce((sum, msg) => sum + msg.content.length, 0);
-    const summaryLength = summaryMessage.content.length;
-    const charsSaved = Math.max(0, originalLength - summaryLength);
-    return Math.round(charsSaved / 4);
+    const originalTokens = this.client.countTokens(originalMessages);
+    const summaryTokens = this.client.countTokens([summaryMessage]);
+    return Math.max(0, originalTokens - summaryTokens);
   }
 }
\ No newline at end of file
@@ -0,0 +1,149 @@
+import { existsSync, readFileSync, statSync } from 'fs';
+import { extname, resolve } from 'path';
+
+// Content parts use the chat completions format; providers translate them
+export interface TextPart {
+  type: 'text';
+  text: string;
+}
+
+export interface ImagePart {
+  type: 'image_url';
+  image_url: { url: string }; // A base64 data URL
+  name?: string; // Path it was attached from, for the UI; never sent to the model
+}
+
+export type ContentPart = TextPart | ImagePart;
+
+// Plain text, or text and images for a user message with attachments
+export type MessageContent = string | ContentPart[];
+
+const IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+// The smallest of the providers' per-image limits (Anthropic's 5 MB)
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * The text of a message; images are left out
+ */
+export const getTextContent = (content: MessageContent): string =>
+  typeof content === 'string'
+    ? content
+    : content
+        .filter((part): part is TextPart => part.type === 'text')
+        .map((part) => part.text)
+        .join('\n');
+
+export const getImageParts = (content: MessageContent): ImagePart[] =>
+  typeof content === 'string'
+    ? []
+    : content.filter((part): part is ImagePart => part.type === 'image_url');
+
+/**
+ * Text for places that can't show images (summaries, exports, search),
+ * with each attachment as an `[image: name]` marker
+ */
+export const describeContent = (content: MessageContent): string => {
+  const images = getImageParts(content).map(
+    (image) => `[image: ${image.name ?? 'attachment'}]`
+  );
+  return [getTextContent(content), ...images].filter(Boolean).join('\n');
+};
+
+/**
+ * Turns content back into input text, with attachments as `@"path"`
+ * references, so it can be edited and sent again
+ */
+export const toInputText = (content: MessageContent): string =>
+  [
+    getTextContent(content),
+    ...getImageParts(content).map((image) => `@"${image.name ?? ''}"`),
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+/**
+ * Splits a data URL into its media type and base64 payload
+ */
+export function parseDataURL(url: string): { mediaType: string; data: string } {
+  const match = /^data:([^;,]+);base64,(.*)$/s.exec(url);
+  if (!match) {
+    throw new Error('Images must be base64 data URLs');
+  }
+  return { mediaType: match[1], data: match[2] };
+}
+
+/**
+ * Reads a local image into a content part with a base64 data URL
+ */
+export function loadImageAttachment(path: string): ImagePart {
+  const fullPath = resolve(path);
+  const mediaType = IMAGE_TYPES[extname(fullPath).toLowerCase()];
+  if (!mediaType) {
+    throw new Error(
+      `Unsupported image type: ${path} (use ${Object.keys(IMAGE_TYPES).join(', ')})`
+    );
+  }
+  if (!existsSync(fullPath)) {
+    throw new Error(`Image not found: ${path}`);
+  }
+  const { size } = statSync(fullPath);
+  if (size > MAX_IMAGE_BYTES) {
+    throw new Error(
+      `Image too large: ${path} (${(size / 1024 / 1024).toFixed(1)} MB, limit 5 MB)`
+    );
+  }
+
+  const data = readFileSync(fullPath).toString('base64');
+  return {
+    type: 'image_url',
+    image_url: { url: `data:${mediaType};base64,${data}` },
+    name: path,
+  };
+}
+
+/**
+ * Builds a message's content from its text and attached image files; plain
+ * text stays a string
+ */
+export function buildMessageContent(
+  text: string,
+  imagePaths: string[]
+): MessageContent {
+  if (imagePaths.length === 0) {
+    return text;
+  }
+  return [
+    ...(text ? [{ type: 'text' as const, text }] : []),
+    ...imagePaths.map(loadImageAttachment),
+  ];
+}
+
+// `@shot.png` or `@"my shot.png"`, at the start of the input or after a space
+const IMAGE_REFERENCE =
+  /(^|\s)@(?:"([^"]+)"|(\S+\.(?:png|jpe?g|gif|webp)))(?=\s|$)/gi;
+
+/**
+ * Pulls `@path` image references out of typed input. Quoted paths are
+ * always taken; unquoted ones need an image extension.
+ */
+export function extractImageReferences(input: string): {
+  text: string;
+  imagePaths: string[];
+} {
+  const imagePaths: string[] = [];
+  const text = input
+    .replace(IMAGE_REFERENCE, (_match, space: string, quoted, bare) => {
+      imagePaths.push(quoted ?? bare);
+      return space;
+    })
+    .replace(/[ \t]{2,}/g, ' ')
+    .trim();
+  return { text, imagePaths };
+}
@@ -0,0 +1,14 @@
+import { getModelInfo } from '../models.js';
+import type { Config, ReasoningEffort } from '../schemas/config.js';
+
+/**
+ * Reasoning settings for the active model, or undefined for regular models.
+ * `reasoning.enabled` wins over the model registry.
+ */
+export function getReasoningOptions(
+  config: Config
+): { effort?: ReasoningEffort } | undefined {
+  const enabled =
+    config.reasoning.enabled ?? getModelInfo(config).capabilities.reasoning;
+  return enabled ? { effort: config.reasoning.effort } : undefined;
+}
@@ -0,0 +1,125 @@
+import { sleep } from './abort.js';
+
+export interface RetryPolicy {
+  maxRetries: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RetryInfo {
+  attempt: number; // 1 for the first retry
+  maxRetries: number;
+  delayMs: number;
+  error: string;
+}
+
+// Timeouts, conflicts and rate limits; every 5xx (incl. Anthropic's 529) is retried too
+const RETRYABLE_STATUS = new Set([408, 409, 425, 429]);
+const RETRYABLE_CODE =
+  /^(ECONNRESET|ECONNREFUSED|ETIMEDOUT|EPIPE|ENOTFOUND|EAI_AGAIN|UND_ERR_)/;
+// Messages of streams cut off mid-response and of overloaded backends
+const RETRYABLE_MESSAGE =
+  /terminated|socket hang up|premature close|network error|overloaded/i;
+
+/**
+ * Whether a failed API call is worth repeating: rate limits, server errors,
+ * connection failures and dropped streams are; bad requests and auth are not
+ */
+export function isRetryableError(error: unknown): boolean {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') {
+    return RETRYABLE_STATUS.has(status) || status >= 500;
+  }
+  if (!(error instanceof Error)) {
+    return false;
+  }
+
+  // The SDKs' APIConnectionError and APIConnectionTimeoutError
+  if (/Connection|Timeout/.test(error.name)) {
+    return true;
+  }
+  const code =
+    (error as { code?: unknown }).code ??
+    (error.cause as { code?: unknown } | undefined)?.code;
+  if (typeof code === 'string' && RETRYABLE_CODE.test(code)) {
+    return true;
+  }
+  return RETRYABLE_MESSAGE.test(error.message);
+}
+
+/**
+ * Reads `retry-after-ms` or `retry-after` (seconds or an HTTP date) from an
+ * SDK error's response headers
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  const headers = (error as { headers?: unknown } | null)?.headers;
+  if (!headers || typeof headers !== 'object') {
+    return undefined;
+  }
+  const read = (name: string): string | null | undefined =>
+    typeof (headers as Headers).get === 'function'
+      ? (headers as Headers).get(name)
+      : (headers as Record<string, string | null | undefined>)[name];
+
+  const milliseconds = Number(read('retry-after-ms'));
+  if (read('retry-after-ms') && Number.isFinite(milliseconds)) {
+    return Math.max(0, milliseconds);
+  }
+
+  const retryAfter = read('retry-after');
+  if (!retryAfter) {
+    return undefined;
+  }
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Exponential backoff with jitter: each retry waits between half and all of
+ * `initialDelayMs * 2^(attempt - 1)`, capped at `maxDelayMs`
+ */
+export function getBackoffDelay(attempt: number, policy: RetryPolicy): number {
+  const delay = Math.min(
+    policy.maxDelayMs,
+    policy.initialDelayMs * 2 ** (attempt - 1)
+  );
+  return Math.round(delay / 2 + (Math.random() * delay) / 2);
+}
+
+/**
+ * Calls `fn` until it succeeds, the error is not retryable or the policy's
+ * retries are used up. A server's Retry-After wins over the computed backoff.
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  options: { onRetry?: (info: RetryInfo) => void; signal?: AbortSignal } = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (
+        options.signal?.aborted ||
+        attempt >= policy.maxRetries ||
+        !isRetryableError(error)
+      ) {
+        throw error;
+      }
+
+      const delayMs =
+        getRetryAfterMs(error) ?? getBackoffDelay(attempt + 1, policy);
+      options.onRetry?.({
+        attempt: attempt + 1,
+        maxRetries: policy.maxRetries,
+        delayMs,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      await sleep(delayMs, options.signal);
+    }
+  }
+}
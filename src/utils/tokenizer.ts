@@ -0,0 +1,170 @@
+import { Tiktoken, type TiktokenBPE } from 'js-tiktoken/lite';
+import cl100k_base from 'js-tiktoken/ranks/cl100k_base';
+import o200k_base from 'js-tiktoken/ranks/o200k_base';
+import type { ToolCall, ToolDefinition } from '../providers/types.js';
+import {
+  getImageParts,
+  getTextContent,
+  type MessageContent,
+} from './messageContent.js';
+
+export type EncodingName = 'o200k_base' | 'cl100k_base';
+
+interface CountableMessage {
+  role: string;
+  content: MessageContent;
+  tool_calls?: ToolCall[];
+}
+
+interface ToolProperty {
+  type?: string | string[];
+  description?: string;
+  enum?: unknown[];
+  items?: unknown;
+  properties?: unknown;
+}
+
+const RANKS: Record<EncodingName, TiktokenBPE> = { o200k_base, cl100k_base };
+
+// Building an encoder takes a moment, so each is made on first use
+const encoders = new Map<EncodingName, Tiktoken>();
+
+// gpt-4, gpt-4-turbo and gpt-3.5 use cl100k. Everything newer uses o200k,
+// which also stands in for other providers' models.
+const CL100K_MODEL = /^(gpt-4(?![o.])|gpt-3\.5)/;
+
+// Chat format overhead from OpenAI's token counting guide
+const TOKENS_PER_MESSAGE = 3;
+const REPLY_PRIMING_TOKENS = 3;
+const TOKENS_PER_TOOL_CALL = 7;
+
+// A 1024×1024 image at high detail; the real cost depends on the image size
+const TOKENS_PER_IMAGE = 765;
+
+// Tool definitions are rendered into the prompt with this much overhead
+const TOOL_OVERHEAD: Record<
+  EncodingName,
+  { function: number; properties: number; property: number; end: number }
+> = {
+  o200k_base: { function: 7, properties: 3, property: 3, end: 12 },
+  cl100k_base: { function: 10, properties: 3, property: 3, end: 12 },
+};
+const ENUM_INIT_TOKENS = -3;
+const TOKENS_PER_ENUM_ITEM = 3;
+
+export const getEncodingName = (model: string): EncodingName =>
+  CL100K_MODEL.test(model) ? 'cl100k_base' : 'o200k_base';
+
+function getEncoder(encoding: EncodingName): Tiktoken {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = new Tiktoken(RANKS[encoding]);
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+const encodeLength = (text: string, encoding: EncodingName): number =>
+  // Special tokens such as <|endoftext|> in fetched pages count as plain text
+  text ? getEncoder(encoding).encode(text, [], []).length : 0;
+
+/**
+ * Tokens in a piece of text for `model`
+ */
+export const countTokens = (text: string, model: string): number =>
+  encodeLength(text, getEncodingName(model));
+
+/**
+ * Tokens for the tool calls an assistant message makes
+ */
+export function countToolCallTokens(
+  toolCalls: ToolCall[],
+  model: string
+): number {
+  const encoding = getEncodingName(model);
+  return toolCalls.reduce(
+    (sum, call) =>
+      sum +
+      TOKENS_PER_TOOL_CALL +
+      encodeLength(call.function.name, encoding) +
+      encodeLength(call.function.arguments, encoding),
+    0
+  );
+}
+
+/**
+ * Tokens the tool definitions add to every request that sends them
+ */
+export function countToolDefinitionTokens(
+  tools: ToolDefinition[],
+  model: string
+): number {
+  if (tools.length === 0) {
+    return 0;
+  }
+  const encoding = getEncodingName(model);
+  const overhead = TOOL_OVERHEAD[encoding];
+  const trimPeriod = (text = '') => text.replace(/\.$/, '');
+
+  let tokens = overhead.end;
+  for (const { function: fn } of tools) {
+    tokens +=
+      overhead.function +
+      encodeLength(`${fn.name}:${trimPeriod(fn.description)}`, encoding);
+
+    const properties = (fn.parameters?.properties ?? {}) as Record<
+      string,
+      ToolProperty
+    >;
+    if (Object.keys(properties).length > 0) {
+      tokens += overhead.properties;
+    }
+    for (const [key, property] of Object.entries(properties)) {
+      const { type = '', description, enum: values, items } = property;
+      const typeName = Array.isArray(type) ? type.join(' | ') : type;
+      tokens +=
+        overhead.property +
+        encodeLength(`${key}:${typeName}:${trimPeriod(description)}`, encoding);
+      if (values) {
+        tokens += ENUM_INIT_TOKENS;
+        for (const value of values) {
+          tokens +=
+            TOKENS_PER_ENUM_ITEM + encodeLength(String(value), encoding);
+        }
+      }
+      // The guide doesn't cover nested objects or array items; count their JSON
+      const nested = property.properties ?? items;
+      if (nested) {
+        tokens += encodeLength(JSON.stringify(nested), encoding);
+      }
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Prompt tokens for a request: messages with their chat format overhead,
+ * images, tool calls and, when given, the tool definitions
+ */
+export function countMessageTokens(
+  messages: CountableMessage[],
+  model: string,
+  tools: ToolDefinition[] = []
+): number {
+  const encoding = getEncodingName(model);
+  const messageTokens = messages.reduce(
+    (sum, msg) =>
+      sum +
+      TOKENS_PER_MESSAGE +
+      encodeLength(msg.role, encoding) +
+      encodeLength(getTextContent(msg.content), encoding) +
+      getImageParts(msg.content).length * TOKENS_PER_IMAGE +
+      countToolCallTokens(msg.tool_calls ?? [], model),
+    0
+  );
+  return (
+    messageTokens +
+    REPLY_PRIMING_TOKENS +
+    countToolDefinitionTokens(tools, model)
+  );
+}
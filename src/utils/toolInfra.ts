@@ -2,11 +2,18 @@ import { z } from 'zod';
 import type { Config } from '../schemas/config.js';
 
 export interface Tool<Name extends string, Schema extends z.ZodSchema> {
-  execute: (params: z.infer<Schema>, config: Config) => Promise<string>;
+  // `signal` aborts when the user cancels the turn; long-running tools should pass it on
+  execute: (
+    params: z.infer<Schema>,
+    config: Config,
+    signal?: AbortSignal
+  ) => Promise<string>;
   schema: Schema;
   name: Name;
   description: string;
   formatToolCall?: (params: z.infer<Schema>) => string;
+  // false runs the tool on its own instead of alongside other calls of the same turn
+  parallelSafe?: boolean;
 }
 
 export function createTool<Name extends string, Schema extends z.ZodSchema>(
@@ -14,9 +21,9 @@ export function createTool<Name extends string, Schema extends z.ZodSchema>(
 ): Tool<Name, Schema> {
   return {
     ...tool,
-    execute: async (params, config) => {
+    execute: async (params, config, signal) => {
       const validatedParams = tool.schema.parse(params);
-      return tool.execute(validatedParams, config);
+      return tool.execute(validatedParams, config, signal);
     },
   };
 }
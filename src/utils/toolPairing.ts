@@ -0,0 +1,105 @@
+import { describeContent, type MessageContent } from './messageContent.js';
+
+// What sanitizeToolPairing looks at; session and chat state messages both have it
+interface PairableMessage {
+  role: string;
+  content: MessageContent;
+  tool_calls?: any[];
+  tool_call_id?: string;
+}
+
+/**
+ * Drops tool calls without a result and tool results without a call, so the
+ * history is always accepted by the chat completions API: every assistant
+ * `tool_calls` entry must be answered by a `tool` message right after it.
+ */
+export function sanitizeToolPairing<T extends PairableMessage>(
+  messages: T[]
+): {
+  messages: T[];
+  dropped: number;
+} {
+  const sanitized: T[] = [];
+  let dropped = 0;
+
+  let index = 0;
+  while (index < messages.length) {
+    const message = messages[index];
+
+    if (message.role === 'tool') {
+      // Not directly preceded by its call
+      dropped++;
+      index++;
+      continue;
+    }
+
+    if (message.role !== 'assistant' || !message.tool_calls?.length) {
+      sanitized.push(message);
+      index++;
+      continue;
+    }
+
+    const responses: T[] = [];
+    let next = index + 1;
+    while (next < messages.length && messages[next].role === 'tool') {
+      responses.push(messages[next]);
+      next++;
+    }
+
+    const answeredIds = new Set(
+      responses.map((response) => response.tool_call_id)
+    );
+    const callIds = new Set<string>();
+    const toolCalls = message.tool_calls.filter((toolCall: any) => {
+      const valid =
+        typeof toolCall?.id === 'string' &&
+        typeof toolCall.function?.name === 'string' &&
+        answeredIds.has(toolCall.id) &&
+        !callIds.has(toolCall.id);
+      if (valid) {
+        callIds.add(toolCall.id);
+      }
+      return valid;
+    });
+
+    const seenResponses = new Set<string>();
+    const keptResponses = responses.filter((response) => {
+      const id = response.tool_call_id!;
+      const keep = callIds.has(id) && !seenResponses.has(id);
+      seenResponses.add(id);
+      return keep;
+    });
+
+    dropped +=
+      message.tool_calls.length -
+      toolCalls.length +
+      responses.length -
+      keptResponses.length;
+
+    if (toolCalls.length > 0) {
+      sanitized.push(
+        {
+          ...message,
+          tool_calls: toolCalls.map((toolCall: any) => ({
+            ...toolCall,
+            type: 'function',
+            function: {
+              ...toolCall.function,
+              arguments:
+                typeof toolCall.function.arguments === 'string'
+                  ? toolCall.function.arguments
+                  : JSON.stringify(toolCall.function.arguments ?? {}),
+            },
+          })),
+        },
+        ...keptResponses
+      );
+    } else if (describeContent(message.content).trim()) {
+      sanitized.push({ ...message, tool_calls: undefined });
+    }
+
+    index = next;
+  }
+
+  return { messages: sanitized, dropped };
+}